@@ -2,17 +2,37 @@
 // A pure function with no dependencies - receives tosijs toolkit at runtime
 
 import type { XinBlueprint, XinFactory } from 'tosijs'
+import { createSchemaResolver, type RefResolver, type SchemaResolver } from './refs'
+import { formatPath, getValueByPath, indexPath, joinPath, parentPath, parsePath } from './paths'
+import { compilePattern, deepEqual, groupErrors, matchesType, validateData, type ValidationError } from './validate'
+import { findWidget, getWidget, type SchemaWidget } from './widgets'
+import { applyConditionals, hasConditionals, mergeAllOf } from './merge'
+import { createHistory } from './history'
+import { countItems, summarize } from './summary'
+import { localStorageDrafts, schemaFingerprint, type AutosaveOptions, type Draft } from './drafts'
+import {
+  applyChanges,
+  applyJsonPatch,
+  diffData,
+  toJsonPatch,
+  toPointer,
+  type DataChange,
+  type JsonPatchOperation,
+} from './diff'
 
 // JSON Schema types (subset we support)
 export interface JSONSchema {
-  type?: string | string[]
+  type?: string | readonly string[]
   properties?: Record<string, JSONSchema>
-  items?: JSONSchema
-  required?: string[]
-  enum?: any[]
+  // a schema for every item, or (legacy) positional schemas with additionalItems
+  items?: JSONSchema | readonly JSONSchema[] | boolean
+  prefixItems?: readonly JSONSchema[]
+  additionalItems?: JSONSchema | boolean
+  required?: readonly string[]
+  enum?: readonly any[]
   const?: any
-  anyOf?: JSONSchema[]
-  oneOf?: JSONSchema[]
+  anyOf?: readonly JSONSchema[]
+  oneOf?: readonly JSONSchema[]
   
   // Discriminator for union types
   discriminator?: {
@@ -34,9 +54,20 @@ export interface JSONSchema {
   description?: string
   default?: any
   format?: string
+  readOnly?: boolean
+  writeOnly?: boolean
   
   // Additional
   additionalProperties?: boolean | JSONSchema
+  patternProperties?: Record<string, JSONSchema>
+  propertyNames?: JSONSchema
+  
+  // References
+  $ref?: string
+  $defs?: Record<string, JSONSchema>
+  definitions?: Record<string, JSONSchema>
+  $id?: string
+  $anchor?: string
   [key: string]: any
 }
 
@@ -44,6 +75,79 @@ export interface SchemaFormParts {
   form: HTMLFormElement
 }
 
+// Presentation hints kept separate from the data schema, mirroring its structure:
+// nested properties by name, array items under `items`
+export interface UISchema {
+  // property order; '*' stands for every property not listed
+  'ui:order'?: string[]
+  // group properties into sections of rows
+  'ui:layout'?: UILayoutSection[]
+  'ui:widget'?: string
+  'ui:placeholder'?: string
+  'ui:help'?: string
+  'ui:hidden'?: boolean
+  items?: UISchema
+  [key: string]: any
+}
+
+export interface UILayoutSection {
+  title?: string
+  description?: string
+  // each row lists the properties shown side by side
+  rows: string[][]
+}
+
+export interface ValidationResult {
+  valid: boolean
+  // errors keyed by the data-path of the offending field
+  errors: Record<string, ValidationError[]>
+}
+
+export interface WizardStep {
+  title: string
+  // the top-level properties shown in the step
+  keys: string[]
+}
+
+// A rendered property, kept so conditional re-evaluation can reuse it
+interface PropertyField {
+  schema: JSONSchema
+  required: boolean
+  element: HTMLElement
+}
+
+// Per-render state threaded through the field renderers
+interface RenderContext {
+  resolver: SchemaResolver
+  // $ref targets on the current ancestor chain, used to render recursive schemas lazily
+  refs: JSONSchema[]
+  uiSchema: UISchema
+  // data-paths of the sections that are collapsed, kept across renders
+  collapsed: Set<string>
+  // fields are shown but can't be edited (read-only text can still be selected and copied)
+  readOnly?: boolean
+  disabled?: boolean
+}
+
+// How a rendered array renders its items, so they can be added in place
+interface RenderedArray {
+  // renders an item (in the given union variant, or the one its value matches)
+  renderItem: (item: any, index: number, variantIndex?: number) => HTMLElement
+  maxItems?: number
+  // brings the array's controls and validity up to date with its items
+  checkItems: () => void
+}
+
+// What the form uses of a tosijs proxy: its value, and observing its path (which takes a
+// callback and returns the function that stops observing)
+interface StateProxy {
+  tosiValue?: unknown
+  tosiObserve?: (callback: () => void) => () => void
+}
+
+// The JSON of the array item last copied, in any form
+let copiedItem: string | null = null
+
 // Helper to generate unique IDs
 let idCounter = 0
 const uniqueId = (prefix: string) => `${prefix}-${++idCounter}`
@@ -58,16 +162,45 @@ const getLabel = (key: string, schema: JSONSchema): string => {
     .trim()
 }
 
-// Get union variants from anyOf or oneOf
-const getUnionVariants = (schema: JSONSchema): JSONSchema[] | null => {
-  return schema.anyOf || schema.oneOf || null
+// Find the uiSchema for a data-path (array indices map to `items`)
+const getUiSchema = (uiSchema: UISchema, path: string): UISchema => {
+  let current: UISchema | undefined = uiSchema
+  for (const part of parsePath(path)) {
+    current = typeof part === 'number' ? current?.items : current?.[part]
+    if (!current) return {}
+  }
+  return current
+}
+
+// Order property keys by a ui:order list, where '*' stands for the rest
+const orderKeys = (keys: string[], order?: string[]): string[] => {
+  if (!order) return keys
+  const listed = order.filter(k => k === '*' || keys.includes(k))
+  const rest = keys.filter(k => !listed.includes(k))
+  if (!listed.includes('*')) return [...listed, ...rest]
+  return listed.flatMap(k => (k === '*' ? rest : [k]))
+}
+
+// Get union variants from anyOf or oneOf, with any $ref variants resolved
+const getUnionVariants = (schema: JSONSchema, resolver?: SchemaResolver): JSONSchema[] | null => {
+  const variants = schema.anyOf || schema.oneOf
+  if (!variants) return null
+  if (!resolver) return [...variants]
+  return variants
+    .map(v => resolver.resolve(v))
+    .filter((v): v is JSONSchema => v !== undefined)
+    .map(v => mergeAllOf(v, resolver).schema)
 }
 
+// The schema a field actually renders with: $refs followed and allOf merged
+const effectiveSchema = (schema: JSONSchema, resolver: SchemaResolver): JSONSchema =>
+  mergeAllOf(resolver.resolve(schema) ?? schema, resolver).schema
+
 // Get a label for a union variant
 const getVariantLabel = (variant: JSONSchema, index: number): string => {
   if (variant.title) return variant.title
   if (variant.const !== undefined) return String(variant.const)
-  if (variant.type) return Array.isArray(variant.type) ? variant.type[0] : variant.type
+  if (variant.type) return typeof variant.type === 'string' ? variant.type : variant.type[0]!
   if (variant.properties) {
     const keys = Object.keys(variant.properties)
     const typeKey = keys.find(k => k === 'type' || k === 'kind' || k === '_type')
@@ -80,7 +213,11 @@ const getVariantLabel = (variant: JSONSchema, index: number): string => {
 
 // Detect which variant matches a value
 const detectVariant = (value: any, variants: JSONSchema[]): number => {
-  if (value === null || value === undefined) return 0
+  if (value === null) {
+    const nullIndex = variants.findIndex(v => v.const === null || [v.type].flat().includes('null'))
+    return Math.max(nullIndex, 0)
+  }
+  if (value === undefined) return 0
   
   // First pass: check for exact const matches (highest priority)
   for (let i = 0; i < variants.length; i++) {
@@ -102,7 +239,10 @@ const detectVariant = (value: any, variants: JSONSchema[]): number => {
       if (variantType === 'number' && valueType === 'number') return i
       if (variantType === 'integer' && valueType === 'number' && Number.isInteger(value)) return i
       if (variantType === 'boolean' && valueType === 'boolean') return i
-      if (variantType === 'array' && Array.isArray(value)) return i
+      if (variantType === 'array' && Array.isArray(value)) {
+        const tuple = getTupleSchemas(variant!)
+        if (!tuple || matchesTuple(value, tuple.prefix)) return i
+      }
       if (variantType === 'object' && valueType === 'object' && !Array.isArray(value)) {
         if (variant.properties) {
           const variantKeys = Object.keys(variant.properties)
@@ -123,8 +263,157 @@ const detectVariant = (value: any, variants: JSONSchema[]): number => {
   return 0
 }
 
-// Get default value for a schema
-const getDefaultValue = (schema: JSONSchema): any => {
+// Split a tuple schema (prefixItems, or array-valued items) into its positional schemas
+// and the schema for items after them: false if none are allowed, {} if unconstrained
+const getTupleSchemas = (schema: JSONSchema): { prefix: readonly JSONSchema[], rest: JSONSchema | false } | null => {
+  const restOf = (rest: JSONSchema | boolean | undefined) =>
+    rest === false ? false : rest === true || rest === undefined ? {} : rest
+  if (schema.prefixItems) return { prefix: schema.prefixItems, rest: restOf(schema.items as JSONSchema | boolean) }
+  if (Array.isArray(schema.items)) return { prefix: schema.items, rest: restOf(schema.additionalItems) }
+  return null
+}
+
+// The schema an array expects for each item (not for tuples)
+const getItemSchema = (schema: JSONSchema): JSONSchema =>
+  schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)
+    ? schema.items
+    : { type: 'string' }
+
+// An unconstrained schema ({}) edits a value as whatever type it already has, with
+// unconstrained items and entries, so nothing inside it is lost
+const inferValueSchema = (schema: JSONSchema, value: any): JSONSchema => {
+  if (Object.keys(schema).length > 0) return schema
+  if (value === null) return { type: 'null' }
+  if (Array.isArray(value)) return { type: 'array', items: {} }
+  const type = typeof value
+  if (type === 'object') return { type: 'object', additionalProperties: {} }
+  return { type: type === 'number' || type === 'boolean' ? type : 'string' }
+}
+
+// Do an array's items fit a tuple's positional schemas?
+const matchesTuple = (value: any[], prefix: readonly JSONSchema[]): boolean =>
+  prefix.every((itemSchema, i) =>
+    value[i] === undefined ||
+    itemSchema.type === undefined ||
+    [itemSchema.type].flat().some(type => matchesType(value[i], type))
+  )
+
+// Option values for a list of choices: the plain string where that's unambiguous,
+// otherwise JSON (so 1 and '1' stay distinct)
+const choiceKeys = (values: any[]): string[] => {
+  const plain = values.map(v => (typeof v === 'string' ? v : JSON.stringify(v)))
+  return new Set(plain).size === plain.length ? plain : values.map(v => JSON.stringify(v))
+}
+
+// Display labels for an enum: x-enumNames where given, else the value itself
+const enumLabels = (schema: JSONSchema): string[] =>
+  (schema.enum || []).map((v, i) =>
+    schema['x-enumNames']?.[i] ?? (typeof v === 'string' ? v : JSON.stringify(v))
+  )
+
+// Turn a schema with several (non-null) types into a union with one variant per type
+const multiTypeUnion = (schema: JSONSchema): JSONSchema => {
+  const { type, title, description, default: defaultValue, ...constraints } = schema
+  const union: JSONSchema = {
+    anyOf: (type as string[]).map(t => ({ ...constraints, type: t, title: t.charAt(0).toUpperCase() + t.slice(1) })),
+  }
+  if (title !== undefined) union.title = title
+  if (description !== undefined) union.description = description
+  if (defaultValue !== undefined) union.default = defaultValue
+  return union
+}
+
+// Does an object schema accept keys beyond its declared properties?
+const isMapSchema = (schema: JSONSchema): boolean =>
+  schema.patternProperties !== undefined ||
+  (schema.additionalProperties !== undefined && schema.additionalProperties !== false)
+
+// The schema for a map entry's value: a matching patternProperties schema, else
+// additionalProperties, else undefined if the key isn't allowed at all (invalid patterns
+// match no keys)
+const mapValueSchema = (schema: JSONSchema, key: string): JSONSchema | undefined => {
+  for (const [pattern, valueSchema] of Object.entries(schema.patternProperties || {})) {
+    if (compilePattern(pattern)?.test(key)) return valueSchema as JSONSchema
+  }
+  const additional = schema.additionalProperties
+  if (additional === false) return undefined
+  return additional === true || additional === undefined ? {} : additional
+}
+
+// Properties an object schema has fields for, including those its conditionals may add
+// (as first declared)
+const declaredProperties = (schema: JSONSchema): Record<string, JSONSchema> => {
+  const branches = [
+    schema.then,
+    schema.else,
+    ...Object.values(schema.dependentSchemas || {}),
+    ...Object.values(schema.dependencies || {}),
+  ]
+  const properties: Record<string, JSONSchema> = { ...schema.properties }
+  for (const branch of branches) {
+    if (!branch || typeof branch !== 'object' || Array.isArray(branch)) continue
+    for (const [key, property] of Object.entries(branch.properties || {})) {
+      if (!(key in properties)) properties[key] = property as JSONSchema
+    }
+  }
+  return properties
+}
+
+// Keys an object schema has fields for, including those its conditionals may add
+const declaredKeys = (schema: JSONSchema): string[] => Object.keys(declaredProperties(schema))
+
+// Split an object schema's properties into wizard steps. Where any property names its step
+// with x-step, properties are grouped by name (those without one join the step before them);
+// otherwise each object property is a step, and runs of other properties share one: 'Details'
+// for the first run, and after the label of their first property for any later one.
+const getWizardSteps = (schema: JSONSchema, resolver: SchemaResolver, order?: string[]): WizardStep[] => {
+  const properties = declaredProperties(schema)
+  const keys = orderKeys(Object.keys(properties), order)
+  const steps: WizardStep[] = []
+  
+  if (keys.some(key => typeof properties[key]!['x-step'] === 'string')) {
+    const leading: string[] = []
+    let current: WizardStep | undefined
+    for (const key of keys) {
+      const name = properties[key]!['x-step']
+      if (typeof name === 'string') {
+        current = steps.find(step => step.title === name)
+        if (!current) steps.push(current = { title: name, keys: [] })
+      }
+      if (current) current.keys.push(key)
+      else leading.push(key)
+    }
+    steps[0]!.keys.unshift(...leading)
+    return steps
+  }
+  
+  let details: WizardStep | null = null
+  let runs = 0
+  for (const key of keys) {
+    const property = effectiveSchema(properties[key]!, resolver)
+    if (property.type === 'object' || (property.type === undefined && property.properties)) {
+      steps.push({ title: getLabel(key, property), keys: [key] })
+      details = null
+    } else if (details) {
+      details.keys.push(key)
+    } else {
+      steps.push(details = { title: runs++ === 0 ? 'Details' : getLabel(key, property), keys: [key] })
+    }
+  }
+  return steps
+}
+
+// Get default value for a schema (recursive $refs are left undefined)
+const getDefaultValue = (schema: JSONSchema, resolver?: SchemaResolver, refs: JSONSchema[] = []): any => {
+  if (schema.$ref !== undefined && resolver) {
+    const target = resolver.target(schema)
+    const resolved = resolver.resolve(schema)
+    if (!target || !resolved || refs.includes(target)) return undefined
+    return getDefaultValue(resolved, resolver, [...refs, target])
+  }
+  
+  if (schema.allOf) return getDefaultValue(mergeAllOf(schema, resolver).schema, resolver, refs)
+  
   if (schema.default !== undefined) return schema.default
   
   const schemaType = Array.isArray(schema.type) ? schema.type[0] : schema.type
@@ -134,12 +423,15 @@ const getDefaultValue = (schema: JSONSchema): any => {
     case 'number': 
     case 'integer': return schema.minimum ?? 0
     case 'boolean': return false
-    case 'array': return []
+    case 'array': {
+      const tuple = getTupleSchemas(schema)
+      return tuple ? tuple.prefix.map(itemSchema => getDefaultValue(itemSchema, resolver, refs)) : []
+    }
     case 'object':
       if (schema.properties) {
         const obj: Record<string, any> = {}
         for (const [key, propSchema] of Object.entries(schema.properties)) {
-          obj[key] = getDefaultValue(propSchema)
+          obj[key] = getDefaultValue(propSchema, resolver, refs)
         }
         return obj
       }
@@ -150,28 +442,28 @@ const getDefaultValue = (schema: JSONSchema): any => {
 
 // Set value by path
 const setValueByPath = (obj: any, path: string, value: any): void => {
-  const parts = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)
+  const parts = parsePath(path)
   let current = obj
   for (let i = 0; i < parts.length - 1; i++) {
     const part = parts[i]!
-    const nextPart = parts[i + 1]
-    const isNextArray = nextPart ? /^\d+$/.test(nextPart) : false
+    const isNextArray = typeof parts[i + 1] === 'number'
     if (current[part] == null) {
       current[part] = isNextArray ? [] : {}
     }
     current = current[part]
   }
   const lastPart = parts[parts.length - 1]
-  if (lastPart) {
+  if (lastPart !== undefined) {
     current[lastPart] = value
   }
 }
 
-// Collect form data from the DOM
-const collectFormData = (form: HTMLFormElement, _schema: JSONSchema): any => {
+// Collect form data from the DOM (telling inputs apart by tag name rather than class, so
+// this also runs against the stand-in elements of server-side rendering)
+const collectFormData = (form: HTMLElement, _schema: JSONSchema): any => {
   const data: any = {}
   
-  const inputs = form.querySelectorAll('input[data-path]:not([data-union]), select[data-path]:not([data-union]), textarea[data-path]:not([data-union])')
+  const inputs = form.querySelectorAll('[data-widget][data-path], input[data-path]:not([data-union]), select[data-path]:not([data-union]), textarea[data-path]:not([data-union])')
   inputs.forEach((input: Element) => {
     const el = input as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
     const path = el.dataset.path || ''
@@ -181,12 +473,39 @@ const collectFormData = (form: HTMLFormElement, _schema: JSONSchema): any => {
     
     let value: any
     
-    if (el instanceof HTMLInputElement && el.type === 'checkbox') {
-      value = el.checked
+    // map entries without a key yet have nowhere to put their value,
+    // and fields switched to null are ignored in favour of their toggle
+    if (el.closest('[data-empty-key], [data-null]')) return
+    
+    if (el.dataset.nullToggle !== undefined) {
+      if ((el as HTMLInputElement).checked) setValueByPath(data, path, null)
+      return
+    }
+    
+    // custom widgets read their own value; any inputs inside them belong to the widget
+    if (el.closest('[data-widget]')) {
+      const widget = el.dataset.widget ? getWidget(el.dataset.widget) : undefined
+      if (widget) setValueByPath(data, path, widget.getValue(el))
+      return
+    }
+    
+    // only the checked radio in a group carries the value
+    if (el.tagName === 'INPUT' && el.type === 'radio' && !(el as HTMLInputElement).checked) return
+    
+    if (el.tagName === 'INPUT' && el.type === 'checkbox') {
+      value = (el as HTMLInputElement).checked
     } else if (dataType === 'number' || dataType === 'integer') {
       value = el.value === '' ? undefined : Number(el.value)
     } else if (dataType === 'boolean') {
       value = el.value === 'true'
+    } else if (dataType === 'null') {
+      value = null
+    } else if (dataType === 'json') {
+      // typed choices keep their value as JSON on the chosen option
+      const chosen = el.tagName === 'SELECT' ? (el as HTMLSelectElement).options[(el as HTMLSelectElement).selectedIndex] : el
+      const json = chosen?.getAttribute('data-json')
+      if (json === null || json === undefined) return
+      value = JSON.parse(json)
     } else {
       value = el.value
     }
@@ -197,6 +516,270 @@ const collectFormData = (form: HTMLFormElement, _schema: JSONSchema): any => {
   return data
 }
 
+// Make parent's children exactly `children`, leaving those that stay where they are
+// (moving a focused element would blur it)
+const reconcileChildren = (parent: HTMLElement, children: HTMLElement[]): void => {
+  for (const child of [...parent.children]) {
+    if (!children.includes(child as HTMLElement)) child.remove()
+  }
+  let cursor = parent.firstElementChild
+  for (const child of children) {
+    if (child === cursor) {
+      cursor = cursor.nextElementSibling
+    } else {
+      parent.insertBefore(child, cursor)
+    }
+  }
+}
+
+// Point data-paths (and names) at or below `from` at `to` instead, e.g. after a map key is renamed
+const rewritePathPrefix = (root: Element, from: string, to: string): void => {
+  [root, ...root.querySelectorAll('[data-path]')].forEach((el: Element) => {
+    if (!el.hasAttribute('data-path')) return
+    const current = el.getAttribute('data-path') || ''
+    const rest = current.slice(from.length)
+    if (!current.startsWith(from) || (rest !== '' && rest[0] !== '.' && rest[0] !== '[')) return
+    el.setAttribute('data-path', to + rest)
+    if (el.hasAttribute('name')) el.setAttribute('name', to + rest)
+  })
+}
+
+// Escape a value for use inside a quoted attribute selector
+const attrValue = (value: string) => value.replace(/["\\]/g, '\\$&')
+
+// Find the element rendered for a data-path, falling back to its nearest rendered ancestor
+const findPathElement = (root: HTMLElement, path: string): HTMLElement | null => {
+  let current = path
+  while (current) {
+    const el = root.querySelector(`[data-path="${attrValue(current)}"]`) as HTMLElement | null
+    if (el) return el
+    current = parentPath(current)
+  }
+  return null
+}
+
+// Remove inline validation errors from a field container (or everything below root)
+const clearErrors = (root: HTMLElement, scoped = false) => {
+  const selector = scoped ? ':scope > .schema-error' : '.schema-error'
+  root.querySelectorAll(selector).forEach(el => el.remove())
+  const invalid = scoped ? [root] : Array.from(root.querySelectorAll('.schema-invalid'))
+  invalid.forEach(el => el.classList.remove('schema-invalid'))
+  root.querySelectorAll('[aria-invalid]').forEach(el => el.removeAttribute('aria-invalid'))
+}
+
+// Tell enclosing containers (and the form) that fields were added, removed or replaced.
+// `changes` describes the edit when diffing the data before and after would misdescribe it,
+// e.g. removing an item rather than shifting every later item along.
+const announceStructure = (el: Element, changes?: DataChange[]): void => {
+  el.dispatchEvent(new CustomEvent('schema-structure', { bubbles: true, detail: { changes } }))
+}
+
+// The field being typed into, for an input event from a text entry (edits to which coalesce)
+const typingPath = (event: Event): string | undefined => {
+  const target = event.target
+  const typed = target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && target.type !== 'checkbox' && target.type !== 'radio')
+  return typed ? (target as HTMLElement).dataset.path : undefined
+}
+
+// The typed value a choice (radio button or option) stands for
+const choiceValue = (el: Element): any => {
+  const json = el.getAttribute('data-json')
+  return json === null ? (el as HTMLInputElement).value : JSON.parse(json)
+}
+
+// Assign an input's value only if it differs, so an unchanged focused input keeps its cursor
+const assignValue = (el: HTMLInputElement | HTMLTextAreaElement, value: string): void => {
+  if (el.value !== value) el.value = value
+}
+
+// Show a value in an existing input, returning false if the input can't represent it
+const setInputValue = (el: HTMLElement, value: any): boolean => {
+  if (el.dataset.widget) {
+    const widget = getWidget(el.dataset.widget)
+    widget?.setValue(el, value)
+    return widget !== undefined
+  }
+  const dataType = el.dataset.type
+
+  // fixed values can't change in place
+  if (dataType === 'null') return value === null
+  if (el.dataset.const !== undefined) {
+    const input = el as HTMLInputElement
+    const fixed = dataType === 'json' ? choiceValue(input)
+      : dataType === 'number' || dataType === 'integer' ? Number(input.value)
+      : dataType === 'boolean' ? input.value === 'true'
+      : input.value
+    return deepEqual(fixed, value)
+  }
+
+  if (el instanceof HTMLSelectElement) {
+    const index = [...el.options].findIndex(opt =>
+      dataType === 'json' ? opt.hasAttribute('data-json') && deepEqual(choiceValue(opt), value) : opt.value === value
+    )
+    if (index < 0) return false
+    el.selectedIndex = index
+    return true
+  }
+  if (el instanceof HTMLInputElement && el.type === 'radio') {
+    el.checked = deepEqual(choiceValue(el), value)
+    return true
+  }
+  if (el instanceof HTMLInputElement && el.type === 'checkbox') {
+    if (typeof value !== 'boolean') return false
+    el.checked = value
+    return true
+  }
+
+  const input = el as HTMLInputElement | HTMLTextAreaElement
+  if (dataType === 'number' || dataType === 'integer') {
+    if (typeof value !== 'number') return false
+    assignValue(input, String(value))
+    // a range slider shows its value in a companion number input too
+    const companion = input.parentElement?.querySelector('.schema-range-number') as HTMLInputElement | null
+    if (input.type === 'range' && companion) assignValue(companion, input.value)
+    return true
+  }
+  if (dataType === 'boolean') {
+    if (typeof value !== 'boolean') return false
+    assignValue(input, String(value))
+    return true
+  }
+  if (typeof value !== 'string') return false
+  assignValue(input, value)
+  return true
+}
+
+// Update the inputs for a path in place. Returns false when the field needs re-rendering
+// instead: the value is missing (so the default applies), an object or array, a changed
+// fixed value, or something no input for the path can show.
+const patchValue = (root: HTMLElement, path: string, value: any): boolean => {
+  if (value === undefined || (value !== null && typeof value === 'object')) return false
+  const elements = [...root.querySelectorAll(`[data-path="${attrValue(path)}"]`)].filter(el =>
+    el.matches('[data-widget], input, select, textarea') &&
+    !el.hasAttribute('data-union') &&
+    !el.closest('[data-empty-key]') &&
+    !el.parentElement?.closest('[data-widget]')
+  ) as HTMLElement[]
+
+  const toggle = elements.find(el => el.dataset.nullToggle !== undefined) as HTMLInputElement | undefined
+  if (toggle && toggle.checked !== (value === null)) {
+    toggle.checked = value === null
+    toggle.dispatchEvent(new Event('change', { bubbles: true }))
+  }
+  if (toggle && value === null) return true
+
+  const inputs = elements.filter(el => el !== toggle)
+  if (inputs.length === 0 || !inputs.every(el => setInputValue(el, value))) return false
+  const radios = inputs.filter(el => el instanceof HTMLInputElement && el.type === 'radio') as HTMLInputElement[]
+  if (radios.length > 0 && !radios.some(radio => radio.checked)) return false
+
+  // let conditional sections re-evaluate as if the user had made the change
+  inputs[0]!.dispatchEvent(new Event('change', { bubbles: true }))
+  return true
+}
+
+// Could a field rendered for this schema show the value? Unions and $refs can show anything.
+const fitsSchema = (schema: JSONSchema, value: any): boolean => {
+  if (value === undefined) return true
+  if (schema.const !== undefined) return deepEqual(schema.const, value)
+  if (schema.type === undefined) return true
+  return [schema.type].flat().some(type => matchesType(value, type))
+}
+
+// Is path the same as, or below, base?
+const isWithinPath = (path: string, base: string): boolean =>
+  path === base || (path.startsWith(base) && (path[base.length] === '.' || path[base.length] === '['))
+
+// The data-path a rendered field is for: its own, or that of its first input
+const fieldPath = (field: Element): string | null =>
+  field.getAttribute('data-path') ?? field.querySelector('[data-path]')?.getAttribute('data-path') ?? null
+
+// The current value of a rendered array item, read from its inputs
+const arrayItemValue = (item: HTMLElement): any => {
+  const container = item.parentElement as HTMLElement
+  const itemPath = indexPath(container.dataset.path || '', Number(item.dataset.index))
+  return getValueByPath(collectFormData(item, {}), itemPath)
+}
+
+// Input types holding text, which can be made read-only (other controls can only be disabled)
+const textInputTypes = ['text', 'email', 'url', 'tel', 'search', 'password', 'number', 'date', 'datetime-local', 'time']
+
+// Stop a rendered field being edited: read-only text can still be focused, selected and
+// copied; everything else (and everything, if disabled) is disabled. Section toggles still work.
+const lockField = (field: HTMLElement, disabled: boolean): void => {
+  field.classList.add(disabled ? 'schema-disabled' : 'schema-readonly')
+  field.querySelectorAll('input, select, textarea, button:not(.schema-collapse)').forEach(el => {
+    const control = el as HTMLInputElement
+    const textual = el.tagName === 'TEXTAREA' || (el.tagName === 'INPUT' && textInputTypes.includes(control.type))
+    if (textual && !disabled) control.readOnly = true
+    else control.disabled = true
+  })
+}
+
+// A value as view mode shows it: enum titles, Yes/No, and dates in the reader's locale
+const formatValue = (schema: JSONSchema, value: any): string => {
+  if (schema.enum) {
+    const index = schema.enum.findIndex(option => deepEqual(option, value))
+    if (index >= 0) return enumLabels(schema)[index]!
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'string' && schema.format === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    // read as a local date, so it isn't shown as the day before west of UTC
+    const [year, month, day] = value.split('-').map(Number)
+    return new Date(year!, month! - 1, day).toLocaleDateString()
+  }
+  if (typeof value === 'string' && schema.format === 'date-time' && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toLocaleString()
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// Whether a control's value differs from the one in its markup
+const isEdited = (control: HTMLInputElement): boolean => {
+  if (control.type === 'checkbox' || control.type === 'radio') return control.checked !== control.defaultChecked
+  if (control.tagName === 'SELECT') {
+    return [...(control as unknown as HTMLSelectElement).options].some(option => option.selected !== option.defaultSelected)
+  }
+  return control.value !== control.defaultValue
+}
+
+// Adopt a form rendered by renderToString: the live fields take the place of its own, but
+// keep its inputs (those without listeners of their own), with whatever has been typed into
+// them and focus. Returns the adopted inputs that have been edited.
+const adoptServerForm = (serverForm: HTMLElement, rendered: HTMLElement): HTMLInputElement[] => {
+  const active = serverForm.contains(serverForm.ownerDocument.activeElement)
+    ? serverForm.ownerDocument.activeElement as HTMLInputElement
+    : null
+  const selection = active ? [active.selectionStart, active.selectionEnd] as const : null
+  const edited: HTMLInputElement[] = []
+  rendered.querySelectorAll('input[data-path], select[data-path]:not([data-union]), textarea[data-path]').forEach(el => {
+    const live = el as HTMLInputElement
+    if (live.dataset.nullToggle !== undefined || live.closest('[data-widget], .schema-range-container')) return
+    const selector = `${live.tagName.toLowerCase()}[data-path="${attrValue(live.dataset.path || '')}"]` +
+      (live.type === 'radio' ? `[value="${attrValue(live.value)}"]` : '')
+    const server = [...serverForm.querySelectorAll(selector)]
+      .find(other => (other as HTMLInputElement).type === live.type) as HTMLInputElement | undefined
+    if (!server) return
+    
+    // labels point at the live ids, and the live form may be locked differently
+    server.id = live.id
+    server.disabled = live.disabled
+    if (live.tagName !== 'SELECT') server.readOnly = live.readOnly
+    live.replaceWith(server)
+    if (isEdited(server)) edited.push(server)
+  })
+  serverForm.replaceChildren(...rendered.childNodes)
+  serverForm.className = rendered.className
+  serverForm.removeAttribute('data-ssr')
+  
+  if (active?.isConnected && selection) {
+    active.focus()
+    if (selection[0] !== null && selection[1] !== null) active.setSelectionRange(selection[0], selection[1])
+  }
+  return edited
+}
+
 /**
  * Schema Form Blueprint
  * 
@@ -215,9 +798,12 @@ const collectFormData = (form: HTMLFormElement, _schema: JSONSchema): any => {
  */
 export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
   _tag: string,
-  { Component, elements, vars, varDefault }: XinFactory
+  { Component, elements, vars, varDefault, xin, boxed }: XinFactory
 ) => {
-  const { form, div, label, input, select, option, textarea, button, span, fieldset, legend } = elements
+  const { form, div, label, input, select, option, textarea, button, span, fieldset, legend, dl, dt, dd, ol, li } = elements
+
+  // How each field was rendered, so it can be rendered again in place when its data changes shape
+  const renderedFields = new WeakMap<Element, { key: string, schema: JSONSchema, required: boolean, ctx: RenderContext }>()
 
   // Render a field based on its schema
   const renderField = (
@@ -225,37 +811,207 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
     schema: JSONSchema,
     value: any,
     path: string,
-    required: boolean
+    required: boolean,
+    ctx: RenderContext
+  ): HTMLElement => {
+    // a readOnly schema locks the field and everything in it
+    const locked = schema.readOnly === true && !ctx.readOnly && !ctx.disabled
+    const field = renderFieldElement(key, schema, value, path, required, locked ? { ...ctx, readOnly: true } : ctx)
+    if (locked || ctx.readOnly || ctx.disabled) lockField(field, !!ctx.disabled)
+    renderedFields.set(field, { key, schema, required, ctx })
+    return field
+  }
+
+  // Each array's items container, and how its items are rendered
+  const renderedArrays = new WeakMap<Element, RenderedArray>()
+
+  // Add, remove or move an array item in place, as the add, remove and move buttons do
+  const resizeArray = (root: HTMLElement, change: DataChange): boolean => {
+    const index = change.path[change.path.length - 1] as number
+    const arrayPath = formatPath(change.path.slice(0, -1))
+    const container = root.querySelector(`.schema-array-items[data-path="${attrValue(arrayPath)}"]`) as HTMLElement | null
+    const renderItem = container && renderedArrays.get(container)?.renderItem
+    if (!container || !renderItem) return false
+    
+    const position = index - Number(container.dataset.offset || 0)
+    const items = container.querySelectorAll(':scope > .schema-array-item')
+    if (position < 0 || position > items.length) return false
+    if (change.op === 'move') {
+      const from = change.from || []
+      const source = from[from.length - 1]
+      if (typeof source !== 'number' || formatPath(from.slice(0, -1)) !== arrayPath) return false
+      const item = items[source - Number(container.dataset.offset || 0)]
+      if (!item || position === items.length) return false
+      const rest = [...items].filter(other => other !== item)
+      container.insertBefore(item, rest[position] ?? null)
+    } else if (change.op === 'remove') {
+      if (position === items.length) return false
+      items[position]!.remove()
+    } else {
+      insertArrayItem(container, position, at => renderItem(change.value, at))
+    }
+    reindexArrayItems(container)
+    announceStructure(container)
+    return true
+  }
+
+  // The outermost rendered field for a data-path (a union's or nullable's, rather than its content's)
+  const findField = (root: HTMLElement, path: string): HTMLElement | null => {
+    let found: HTMLElement | null = null
+    root.querySelectorAll(`[data-path="${attrValue(path)}"]`).forEach(el => {
+      for (let node: HTMLElement | null = el as HTMLElement; node && node !== root; node = node.parentElement) {
+        if (renderedFields.has(node) && fieldPath(node) === path && (!found || node.contains(found))) found = node
+      }
+    })
+    return found
+  }
+
+  // Bring a rendered form in line with new data. Leaf values are set in place; anything that
+  // changes the form's shape re-renders the nearest enclosing field that can hold the new value.
+  // Returns false if only rendering the whole form will do.
+  const patchForm = (root: HTMLElement, data: any, changes: DataChange[]): boolean => {
+    const rerendered: string[] = []
+    for (const change of changes) {
+      const path = formatPath(change.path)
+      if (rerendered.some(base => isWithinPath(path, base))) continue
+      
+      // items added to or removed from an array (or a map) change the shape of their container
+      const resized = change.op !== 'replace' && typeof change.path[change.path.length - 1] === 'number'
+      if (resized ? resizeArray(root, change) : patchValue(root, path, change.value)) continue
+      // a move between containers changes two of them
+      if (change.op === 'move' && (!resized || formatPath((change.from || []).slice(0, -1)) !== parentPath(path))) {
+        return false
+      }
+      
+      const entry = change.op === 'remove' && findField(root, path)?.closest('.schema-map-entry')
+      let target = resized || entry ? parentPath(path) : path
+      let field: HTMLElement | null = null
+      while (target) {
+        field = findField(root, target)
+        const info = field && renderedFields.get(field)
+        if (info && fitsSchema(info.schema, getValueByPath(data, target))) break
+        field = null
+        target = parentPath(target)
+      }
+      if (!field) return false
+      
+      const { key, schema, required, ctx } = renderedFields.get(field)!
+      const replacement = renderField(key, schema, getValueByPath(data, target), target, required, ctx)
+      field.replaceWith(replacement)
+      replacement.dispatchEvent(new Event('change', { bubbles: true }))
+      rerendered.push(target)
+    }
+    return true
+  }
+
+  // Swap in fields from a previous render wherever they'd be rendered the same way, so their
+  // inputs keep focus, caret position and any state of their own
+  const reuseFields = (el: HTMLElement, previous: HTMLElement, refsChanged: boolean): HTMLElement => {
+    const info = renderedFields.get(el)
+    const path = info ? fieldPath(el) : null
+    const old = path !== null ? findField(previous, path) : null
+    const oldInfo = old ? renderedFields.get(old) : undefined
+    if (
+      info && oldInfo && old && path !== null &&
+      info.key === oldInfo.key &&
+      info.required === oldInfo.required &&
+      info.ctx.refs.length === oldInfo.ctx.refs.length &&
+      deepEqual(info.schema, oldInfo.schema) &&
+      deepEqual(getUiSchema(info.ctx.uiSchema, path), getUiSchema(oldInfo.ctx.uiSchema, path)) &&
+      !(refsChanged && JSON.stringify(info.schema).includes('"$ref"'))
+    ) {
+      return old
+    }
+    for (const child of [...el.children] as HTMLElement[]) {
+      const replacement = reuseFields(child, previous, refsChanged)
+      if (replacement !== child) child.replaceWith(replacement)
+    }
+    return el
+  }
+
+  const renderFieldElement = (
+    key: string,
+    schema: JSONSchema,
+    value: any,
+    path: string,
+    required: boolean,
+    ctx: RenderContext
   ): HTMLElement => {
+    // Handle $ref, rendering recursive references lazily
+    if (schema.$ref !== undefined) {
+      const target = ctx.resolver.target(schema)
+      const resolved = ctx.resolver.resolve(schema)
+      if (!target || !resolved) {
+        return div({ class: 'schema-field schema-unresolved' }, `Unresolved reference: ${schema.$ref}`)
+      }
+      if (ctx.refs.includes(target) && (value === undefined || value === null)) {
+        return renderLazyField(key, resolved, path, required, ctx)
+      }
+      return renderField(key, resolved, value, path, required, { ...ctx, refs: [...ctx.refs, target] })
+    }
+
+    // Handle allOf by rendering the merged schema, flagging anything that couldn't be merged
+    if (schema.allOf) {
+      const { schema: merged, conflicts } = mergeAllOf(schema, ctx.resolver)
+      const field = renderField(key, merged, value, path, required, ctx)
+      field.append(...renderConflicts(conflicts))
+      return field
+    }
+
+    // Multiple types: nullable fields get a "no value" toggle, the rest a type switcher
+    if (Array.isArray(schema.type) && schema.type.length > 1) {
+      if (schema.type.includes('null')) {
+        return renderNullableField(key, schema, value, path, required, ctx)
+      }
+      return renderField(key, multiTypeUnion(schema), value, path, required, ctx)
+    }
+
     const fieldId = uniqueId(path)
     const fieldLabel = getLabel(key, schema)
-    
+    const ui = getUiSchema(ctx.uiSchema, path)
+    const widget = ui['ui:widget']
+    const schemaType = Array.isArray(schema.type) ? schema.type[0] : schema.type
+
+    // Hidden widget keeps a primitive value without showing it
+    if (widget === 'hidden' && schemaType !== 'object' && schemaType !== 'array') {
+      const hiddenValue = value ?? schema.default ?? schema.const
+      return div(
+        { class: 'schema-field schema-field-hidden', hidden: true },
+        input({
+          type: 'hidden',
+          id: fieldId,
+          name: path,
+          value: hiddenValue === undefined || hiddenValue === null ? '' : String(hiddenValue),
+          'data-path': path,
+          'data-type': schemaType || 'string',
+        })
+      )
+    }
+
+    // Registered custom widgets take precedence over the built-in inputs
+    const customWidget = findWidget(schema, widget)
+    if (customWidget) {
+      return renderWidgetField(customWidget, fieldId, fieldLabel, schema, value, path, required, ui, ctx)
+    }
+
     // Handle anyOf/oneOf (union types)
-    const variants = getUnionVariants(schema)
+    const variants = getUnionVariants(schema, ctx.resolver)
     if (variants) {
       const allConst = variants.every(s => s.const !== undefined)
       
       if (allConst) {
-        const selectEl = select(
-          {
-            id: fieldId,
-            name: path,
-            required,
-            'data-path': path,
-          },
-          option({ value: '' }, '-- Select --'),
-          ...variants.map(s => 
-            option({ value: String(s.const) }, s.title || String(s.const))
-          )
-        )
-        if (value !== undefined && value !== null) {
-          selectEl.value = String(value)
-        }
-        return div(
-          { class: 'schema-field' },
-          label({ for: fieldId }, fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
-          schema.description ? div({ class: 'description' }, schema.description) : '',
-          selectEl
+        return renderChoiceField(
+          fieldId,
+          fieldLabel,
+          schema,
+          variants.map(s => ({
+            value: s.const,
+            label: s.title || (typeof s.const === 'string' ? s.const : JSON.stringify(s.const)),
+          })),
+          value,
+          path,
+          required,
+          widget
         )
       }
       
@@ -280,34 +1036,27 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
       const variantContent = div({ class: 'schema-union-content', 'data-variant': currentVariantIndex })
       
       if (currentVariant.type === 'object' && currentVariant.properties) {
-        const requiredFields = currentVariant.required || []
-        Object.entries(currentVariant.properties).forEach(([propKey, propSchema]) => {
-          variantContent.append(
-            renderField(propKey, propSchema, value?.[propKey], `${path}.${propKey}`, requiredFields.includes(propKey))
-          )
-        })
+        variantContent.append(...renderProperties(currentVariant, value, path, ctx))
       } else {
-        variantContent.append(renderField(key, currentVariant, value, path, required))
+        variantContent.append(renderField(key, currentVariant, value, path, required, ctx))
       }
       
       variantSelector.addEventListener('change', () => {
         const newIndex = parseInt(variantSelector.value, 10)
         const newVariant = variants[newIndex]
+        // the field may have moved, e.g. if it's in an array item
+        const currentPath = variantSelector.dataset.path || path
         variantContent.textContent = ''
         variantContent.dataset.variant = String(newIndex)
         
-        const defaultValue = getDefaultValue(newVariant)
+        const defaultValue = getDefaultValue(newVariant, ctx.resolver)
         
         if (newVariant.type === 'object' && newVariant.properties) {
-          const requiredFields = newVariant.required || []
-          Object.entries(newVariant.properties).forEach(([propKey, propSchema]) => {
-            variantContent.append(
-              renderField(propKey, propSchema, defaultValue?.[propKey], `${path}.${propKey}`, requiredFields.includes(propKey))
-            )
-          })
+          variantContent.append(...renderProperties(newVariant, defaultValue, currentPath, ctx))
         } else {
-          variantContent.append(renderField(key, newVariant, defaultValue, path, required))
+          variantContent.append(renderField(key, newVariant, defaultValue, currentPath, required, ctx))
         }
+        announceStructure(variantContent, [{ op: 'replace', path: parsePath(currentPath) }])
       })
       
       return fieldset(
@@ -321,9 +1070,10 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
     
     // Handle const (fixed value)
     if (schema.const !== undefined) {
+      // null and object constants round-trip as JSON
       const constType = typeof schema.const === 'number' 
         ? (Number.isInteger(schema.const) ? 'integer' : 'number')
-        : typeof schema.const
+        : typeof schema.const === 'object' ? 'json' : typeof schema.const
       return div(
         { class: 'schema-field schema-field-const' },
         label({ for: fieldId }, fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
@@ -336,6 +1086,7 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
           'data-path': path,
           'data-type': constType,
           'data-const': 'true',
+          ...(constType === 'json' ? { 'data-json': JSON.stringify(schema.const) } : {}),
         }),
         span({ class: 'schema-const-value' }, String(schema.const))
       )
@@ -343,37 +1094,29 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
     
     // Handle enum
     if (schema.enum) {
-      const selectEl = select(
-        {
-          id: fieldId,
-          name: path,
-          required,
-          'data-path': path,
-        },
-        option({ value: '' }, '-- Select --'),
-        ...schema.enum.map(v => option({ value: String(v) }, String(v)))
-      )
-      if (value !== undefined && value !== null) {
-        selectEl.value = String(value)
-      }
-      return div(
-        { class: 'schema-field' },
-        label({ for: fieldId }, fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
-        schema.description ? div({ class: 'description' }, schema.description) : '',
-        selectEl
+      const labels = enumLabels(schema)
+      return renderChoiceField(
+        fieldId,
+        fieldLabel,
+        schema,
+        schema.enum.map((v, i) => ({ value: v, label: labels[i]! })),
+        value,
+        path,
+        required,
+        widget
       )
     }
     
-    const schemaType = Array.isArray(schema.type) ? schema.type[0] : schema.type
-    
     switch (schemaType) {
       case 'string':
-        return renderStringField(fieldId, fieldLabel, schema, value, path, required)
+        return renderStringField(fieldId, fieldLabel, schema, value, path, required, ui)
       
       case 'number':
       case 'integer':
-        const hasRange = schema.format === 'range' || 
+        const hasRange = widget === 'range' || (widget !== 'updown' && (
+          schema.format === 'range' || 
           (schema.minimum !== undefined && schema.maximum !== undefined)
+        ))
         
         if (hasRange) {
           const stepVal = schemaType === 'integer' ? 1 : (schema.maximum! - schema.minimum!) / 100
@@ -439,6 +1182,7 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
             required,
             'data-path': path,
             'data-type': schemaType,
+            ...(ui['ui:placeholder'] ? { placeholder: ui['ui:placeholder'] } : {}),
           })
         )
       
@@ -461,11 +1205,20 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
           schema.description ? div({ class: 'description' }, schema.description) : ''
         )
       
+      case 'null':
+        return div(
+          { class: 'schema-field schema-field-null' },
+          label(fieldLabel),
+          schema.description ? div({ class: 'description' }, schema.description) : '',
+          div({ class: 'schema-null-value' }, 'No value'),
+          input({ type: 'hidden', id: fieldId, 'data-path': path, 'data-type': 'null' })
+        )
+      
       case 'object':
-        return renderObjectField(key, schema, value || {}, path, required)
+        return renderObjectField(key, schema, value || {}, path, required, ctx)
       
       case 'array':
-        return renderArrayField(key, schema, value || [], path, required)
+        return renderArrayField(key, schema, value || [], path, required, ctx)
       
       default:
         return div(
@@ -484,45 +1237,196 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
     }
   }
 
-  // Render string field with format support
-  const renderStringField = (
-    fieldId: string,
-    fieldLabel: string,
+  // Render the non-null type(s) of a nullable field with a toggle that makes it null
+  const renderNullableField = (
+    key: string,
     schema: JSONSchema,
     value: any,
     path: string,
-    required: boolean
+    required: boolean,
+    ctx: RenderContext
   ): HTMLElement => {
-    const formatToType: Record<string, string> = {
-      email: 'email',
-      uri: 'url',
-      url: 'url',
-      'date-time': 'datetime-local',
-      date: 'date',
-      time: 'time',
-      password: 'password',
-    }
-    
-    const inputType = schema.format ? formatToType[schema.format] || 'text' : 'text'
-    const isTextarea = schema.maxLength && schema.maxLength > 200
+    const types = (schema.type as string[]).filter(t => t !== 'null')
+    const innerSchema: JSONSchema = { ...schema, type: types.length === 1 ? types[0] : types }
+    const isNull = value === null || (value === undefined && schema.default === null)
     
-    const inputAttrs: Record<string, any> = {
-      id: fieldId,
-      name: path,
-      value: value ?? schema.default ?? '',
-      required,
+    // a disabled fieldset disables everything inside it without touching the fields themselves
+    const content = fieldset(
+      { class: 'schema-nullable-content' },
+      renderField(key, innerSchema, isNull ? undefined : value, path, required, ctx)
+    ) as HTMLFieldSetElement
+    const toggle = input({
+      type: 'checkbox',
+      class: 'schema-null-toggle',
+      checked: isNull,
       'data-path': path,
-      'data-type': 'string',
-    }
+      'data-null-toggle': '',
+    }) as HTMLInputElement
     
-    if (schema.minLength) inputAttrs.minLength = schema.minLength
-    if (schema.maxLength) inputAttrs.maxLength = schema.maxLength
-    if (schema.pattern) inputAttrs.pattern = schema.pattern
-    if (schema.format === 'email') inputAttrs.placeholder = 'email@example.com'
-    if (schema.format === 'url' || schema.format === 'uri') inputAttrs.placeholder = 'https://'
+    const setNull = (on: boolean) => {
+      content.disabled = on
+      content.toggleAttribute('data-null', on)
+    }
+    setNull(isNull)
+    toggle.addEventListener('change', () => setNull(toggle.checked))
     
     return div(
-      { class: 'schema-field' },
+      { class: 'schema-nullable' },
+      content,
+      label({ class: 'schema-null-control' }, toggle, ' No value')
+    )
+  }
+
+  // Warnings for allOf keywords that couldn't be reconciled
+  const renderConflicts = (conflicts: string[]): HTMLElement[] =>
+    conflicts.map(conflict => div({ class: 'schema-conflict', role: 'note' }, `Schema conflict: ${conflict}`))
+
+  // Render a field with a registered custom widget
+  const renderWidgetField = (
+    widget: SchemaWidget,
+    fieldId: string,
+    fieldLabel: string,
+    schema: JSONSchema,
+    value: any,
+    path: string,
+    required: boolean,
+    ui: UISchema,
+    ctx: RenderContext
+  ): HTMLElement => {
+    const editor = widget.render({
+      elements, id: fieldId, label: fieldLabel, path, schema, ui, required,
+      readOnly: !!(ctx.readOnly || ctx.disabled), disabled: !!ctx.disabled,
+    })
+    editor.classList.add('schema-widget')
+    editor.setAttribute('data-path', path)
+    editor.setAttribute('data-widget', widget.name)
+    widget.setValue(editor, value ?? schema.default)
+    
+    return div(
+      { class: 'schema-field schema-field-widget' },
+      label({ for: fieldId }, fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
+      schema.description ? div({ class: 'description' }, schema.description) : '',
+      editor
+    )
+  }
+
+  // Render a fixed set of choices as a select, or as radio buttons
+  const renderChoiceField = (
+    fieldId: string,
+    fieldLabel: string,
+    schema: JSONSchema,
+    choices: Array<{ value: any, label: string }>,
+    value: any,
+    path: string,
+    required: boolean,
+    widget?: string
+  ): HTMLElement => {
+    // Options carry their typed value as JSON unless every choice is a string
+    const typed = choices.some(choice => typeof choice.value !== 'string')
+    const keys = choiceKeys(choices.map(choice => choice.value))
+    const selectedIndex = value === undefined ? -1 : choices.findIndex(choice => deepEqual(choice.value, value))
+    const typeAttrs = (choiceValue: any): Record<string, any> =>
+      typed ? { 'data-type': 'json', 'data-json': JSON.stringify(choiceValue) } : {}
+    
+    if (widget === 'radio') {
+      return fieldset(
+        { class: 'schema-field schema-field-radio', id: fieldId, 'data-path': path },
+        legend(fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
+        schema.description ? div({ class: 'description' }, schema.description) : '',
+        ...choices.map((choice, i) =>
+          label(
+            input({
+              type: 'radio',
+              name: path,
+              value: keys[i],
+              checked: i === selectedIndex,
+              required,
+              'data-path': path,
+              ...typeAttrs(choice.value),
+            }),
+            ' ',
+            choice.label
+          )
+        )
+      )
+    }
+    
+    const selectEl = select(
+      {
+        id: fieldId,
+        name: path,
+        required,
+        'data-path': path,
+        ...(typed ? { 'data-type': 'json' } : {}),
+      },
+      option({ value: '' }, '-- Select --'),
+      ...choices.map((choice, i) => option({ value: keys[i], ...typeAttrs(choice.value) }, choice.label))
+    )
+    if (selectedIndex >= 0) {
+      selectEl.value = keys[selectedIndex]!
+    }
+    return div(
+      { class: 'schema-field' },
+      label({ for: fieldId }, fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
+      schema.description ? div({ class: 'description' }, schema.description) : '',
+      selectEl
+    )
+  }
+
+  // Render string field with format support
+  const renderStringField = (
+    fieldId: string,
+    fieldLabel: string,
+    schema: JSONSchema,
+    value: any,
+    path: string,
+    required: boolean,
+    ui: UISchema = {}
+  ): HTMLElement => {
+    const formatToType: Record<string, string> = {
+      email: 'email',
+      uri: 'url',
+      url: 'url',
+      'date-time': 'datetime-local',
+      date: 'date',
+      time: 'time',
+      password: 'password',
+    }
+    
+    // ui:widget names that map straight onto an input type
+    const widgetToType: Record<string, string> = {
+      ...formatToType,
+      text: 'text',
+      color: 'color',
+      tel: 'tel',
+      search: 'search',
+    }
+    
+    const widget = ui['ui:widget']
+    const inputType = (widget && widgetToType[widget])
+      || (schema.format ? formatToType[schema.format] || 'text' : 'text')
+    const isTextarea = widget
+      ? widget === 'textarea'
+      : schema.maxLength !== undefined && schema.maxLength > 200
+    
+    const inputAttrs: Record<string, any> = {
+      id: fieldId,
+      name: path,
+      value: value ?? schema.default ?? '',
+      required,
+      'data-path': path,
+      'data-type': 'string',
+    }
+    
+    if (schema.minLength) inputAttrs.minLength = schema.minLength
+    if (schema.maxLength) inputAttrs.maxLength = schema.maxLength
+    if (schema.pattern) inputAttrs.pattern = schema.pattern
+    if (schema.format === 'email') inputAttrs.placeholder = 'email@example.com'
+    if (schema.format === 'url' || schema.format === 'uri') inputAttrs.placeholder = 'https://'
+    if (ui['ui:placeholder']) inputAttrs.placeholder = ui['ui:placeholder']
+    
+    return div(
+      { class: 'schema-field' },
       label({ for: fieldId }, fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
       schema.description ? div({ class: 'description' }, schema.description) : '',
       isTextarea
@@ -531,29 +1435,368 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
     )
   }
 
+  // Render a placeholder for a recursive reference that expands on demand
+  const renderLazyField = (
+    key: string,
+    schema: JSONSchema,
+    path: string,
+    required: boolean,
+    ctx: RenderContext
+  ): HTMLElement => {
+    const fieldLabel = getLabel(key, schema)
+
+    const placeholder = div(
+      { class: 'schema-field schema-lazy', 'data-path': path },
+      button(
+        {
+          type: 'button',
+          class: 'schema-lazy-add',
+          onClick: () => {
+            const field = renderField(
+              key,
+              schema,
+              getDefaultValue(schema, ctx.resolver, ctx.refs),
+              placeholder.dataset.path || path,
+              required,
+              ctx
+            )
+            placeholder.replaceWith(field)
+            announceStructure(field)
+          }
+        },
+        `+ Add ${fieldLabel}`
+      )
+    )
+
+    return placeholder
+  }
+
+  // Render each property's field, reusing fields from a previous pass whose schema is
+  // unchanged (only toggling required) so values and focus survive re-evaluation
+  const renderPropertyFields = (
+    schema: JSONSchema,
+    value: Record<string, any> | undefined,
+    path: string,
+    ctx: RenderContext,
+    previous = new Map<string, PropertyField>()
+  ): Map<string, PropertyField> => {
+    const properties = schema.properties || {}
+    const requiredFields = schema.required || []
+    const ui = path ? getUiSchema(ctx.uiSchema, path) : ctx.uiSchema
+    
+    const fields = new Map<string, PropertyField>()
+    for (const propKey of orderKeys(Object.keys(properties), ui['ui:order'])) {
+      const propSchema = properties[propKey]!
+      const propPath = joinPath(path, propKey)
+      const required = requiredFields.includes(propKey)
+      
+      const existing = previous.get(propKey)
+      if (existing && deepEqual(existing.schema, propSchema)) {
+        if (existing.required !== required) setFieldRequired(existing.element, propPath, required)
+        fields.set(propKey, { ...existing, required })
+        continue
+      }
+      
+      const propUi = getUiSchema(ctx.uiSchema, propPath)
+      const field = renderField(propKey, propSchema, value?.[propKey], propPath, required, ctx)
+      if (propUi['ui:help']) {
+        field.append(div({ class: 'schema-help' }, propUi['ui:help']))
+      }
+      if (propUi['ui:hidden']) {
+        field.hidden = true
+      }
+      fields.set(propKey, { schema: propSchema, required, element: field })
+    }
+    return fields
+  }
+
+  // Toggle the required marker and attribute of an already rendered field
+  const setFieldRequired = (field: HTMLElement, path: string, required: boolean) => {
+    field.querySelectorAll(`[data-path="${attrValue(path)}"]:not([data-null-toggle])`).forEach((el: Element) => {
+      if ('required' in el) (el as HTMLInputElement).required = required
+    })
+    const heading = field.querySelector(':scope > label, :scope > legend')
+    const marker = heading?.querySelector('.required')
+    if (required && heading && !marker) {
+      heading.insertBefore(span({ class: 'required' }, ' *'), heading.querySelector(':scope > .schema-summary'))
+    }
+    if (!required && marker) marker.remove()
+  }
+
+  // Build the ui:layout sections once; the returned function places fields into their
+  // rows and returns the container's children, with unplaced fields after the sections
+  const createLayout = (layout?: UILayoutSection[]) => {
+    const sections = (layout || []).map(section => {
+      const rows = section.rows.map(keys => ({ keys, element: div({ class: 'schema-row' }) }))
+      const description = section.description ? div({ class: 'description' }, section.description) : ''
+      const element = section.title
+        ? fieldset({ class: 'schema-section' }, legend(section.title), description, ...rows.map(r => r.element))
+        : div({ class: 'schema-section' }, description, ...rows.map(r => r.element))
+      return { rows, element }
+    })
+    
+    return (fields: Map<string, PropertyField>): HTMLElement[] => {
+      const placed = new Set<string>()
+      for (const { rows } of sections) {
+        for (const row of rows) {
+          const cells = row.keys.filter(k => fields.has(k) && !placed.has(k))
+          cells.forEach(k => placed.add(k))
+          reconcileChildren(row.element, cells.map(k => fields.get(k)!.element))
+        }
+      }
+      return [
+        ...sections.map(section => section.element),
+        ...[...fields].filter(([k]) => !placed.has(k)).map(([, field]) => field.element),
+      ]
+    }
+  }
+
+  // Render an object's properties, applying ui:order, ui:layout, ui:help and ui:hidden.
+  // Schemas with if/then/else or dependencies get a container that re-evaluates them live.
+  const renderProperties = (
+    schema: JSONSchema,
+    value: Record<string, any> | undefined,
+    path: string,
+    ctx: RenderContext
+  ): HTMLElement[] => {
+    const ui = path ? getUiSchema(ctx.uiSchema, path) : ctx.uiSchema
+    const arrange = createLayout(ui['ui:layout'])
+    
+    if (!hasConditionals(schema)) {
+      return arrange(renderPropertyFields(schema, value, path, ctx))
+    }
+    
+    const container = div({ class: 'schema-properties', 'data-path': path })
+    let fields = new Map<string, PropertyField>()
+    
+    const update = (current: any) => {
+      const { schema: effective, conflicts } = applyConditionals(schema, current, ctx.resolver)
+      // the path is read back from the DOM, as array items are reindexed in place
+      fields = renderPropertyFields(effective, current, container.dataset.path ?? path, ctx, fields)
+      reconcileChildren(container, [...renderConflicts(conflicts), ...arrange(fields)])
+    }
+    update(value)
+    
+    const reevaluate = () => {
+      const currentPath = container.dataset.path ?? path
+      const data = collectFormData(container, schema)
+      update(currentPath ? getValueByPath(data, currentPath) : data)
+    }
+    container.addEventListener('input', reevaluate)
+    container.addEventListener('change', reevaluate)
+    container.addEventListener('schema-structure', reevaluate)
+    
+    return [container]
+  }
+
+  // The schemas of collapsible sections, for their summaries
+  const collapsibles = new WeakMap<Element, { schema: JSONSchema, ctx: RenderContext }>()
+  
+  // Show a collapsed section's summary of its current value (or nothing, if it's expanded)
+  const updateSummary = (field: HTMLElement) => {
+    const info = collapsibles.get(field)
+    const summary = field.querySelector(':scope > legend > .schema-summary')
+    if (!info || !summary) return
+    if (!field.hasAttribute('data-collapsed')) {
+      summary.textContent = ''
+      return
+    }
+    const value = getValueByPath(collectFormData(field, info.schema), field.dataset.path || '')
+    summary.textContent = summarize(info.schema, value ?? (field.classList.contains('schema-array') ? [] : value))
+  }
+  
+  // Fold a collapsible section away to its legend, or open it again
+  const setCollapsed = (field: HTMLElement, collapsed: boolean) => {
+    const info = collapsibles.get(field)
+    if (!info) return
+    field.toggleAttribute('data-collapsed', collapsed)
+    const toggle = field.querySelector(':scope > legend > .schema-collapse')
+    toggle?.setAttribute('aria-expanded', String(!collapsed))
+    toggle?.setAttribute('aria-label', collapsed ? 'Expand' : 'Collapse')
+    if (collapsed) info.ctx.collapsed.add(field.dataset.path || '')
+    else info.ctx.collapsed.delete(field.dataset.path || '')
+    updateSummary(field)
+  }
+  
+  // Give an object or array fieldset a toggle that collapses it to its legend and a summary line
+  const makeCollapsible = (field: HTMLElement, schema: JSONSchema, path: string, ctx: RenderContext): HTMLElement => {
+    const heading = field.querySelector(':scope > legend')
+    if (!heading) return field
+    field.classList.add('schema-collapsible')
+    collapsibles.set(field, { schema, ctx })
+    heading.prepend(button({
+      type: 'button',
+      class: 'schema-collapse',
+      'aria-expanded': 'true',
+      'aria-label': 'Collapse',
+      onClick: () => setCollapsed(field, !field.hasAttribute('data-collapsed')),
+    }))
+    heading.append(span({ class: 'schema-summary' }))
+    if (ctx.collapsed.has(path)) setCollapsed(field, true)
+    
+    const refresh = () => {
+      if (field.hasAttribute('data-collapsed')) updateSummary(field)
+    }
+    field.addEventListener('input', refresh)
+    field.addEventListener('change', refresh)
+    field.addEventListener('schema-structure', refresh)
+    return field
+  }
+
   // Render nested object
   const renderObjectField = (
     key: string,
     schema: JSONSchema,
     value: Record<string, any>,
     path: string,
-    required: boolean
+    required: boolean,
+    ctx: RenderContext
   ): HTMLElement => {
     const fieldLabel = getLabel(key, schema)
-    const requiredFields = schema.required || []
+    const isMap = isMapSchema(schema)
     
-    if (!schema.properties) {
+    if (!schema.properties && !isMap) {
       return div({ class: 'schema-field' }, `Object without properties: ${key}`)
     }
     
-    return fieldset(
+    return makeCollapsible(fieldset(
       { class: 'schema-object', 'data-path': path },
       legend(fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
       schema.description ? div({ class: 'description' }, schema.description) : '',
-      ...Object.entries(schema.properties).map(([propKey, propSchema]) =>
-        renderField(propKey, propSchema, value[propKey], `${path}.${propKey}`, requiredFields.includes(propKey))
+      ...(schema.properties ? renderProperties(schema, value, path, ctx) : []),
+      isMap ? renderMapEntries(schema, value, path, ctx) : ''
+    ), schema, path, ctx)
+  }
+
+  // Render keys beyond the declared properties as editable key/value entries
+  const renderMapEntries = (
+    schema: JSONSchema,
+    value: Record<string, any> | undefined,
+    path: string,
+    ctx: RenderContext
+  ): HTMLElement => {
+    const declared = Object.keys(schema.properties || {})
+    const entries = div({ class: 'schema-map-entries' })
+    const container = div({ class: 'schema-map', 'data-path': path }, entries)
+    
+    const valueSchemaFor = (entryKey: string, entryValue: any): JSONSchema | undefined => {
+      const valueSchema = mapValueSchema(schema, entryKey)
+      return valueSchema && inferValueSchema(valueSchema, entryValue)
+    }
+    
+    // Flag empty, duplicate and disallowed keys on their inputs
+    const checkKeys = () => {
+      const keyInputs = [...entries.querySelectorAll(':scope > .schema-map-entry .schema-map-key')] as HTMLInputElement[]
+      const seen = new Set(declared)
+      for (const keyInput of keyInputs) {
+        const entryKey = keyInput.value
+        let message = ''
+        if (entryKey === '') {
+          message = 'Key is required'
+        } else if (seen.has(entryKey)) {
+          message = 'Duplicate key'
+        } else if (schema.propertyNames !== undefined) {
+          message = validateData(entryKey, schema.propertyNames, { resolver: ctx.resolver })[0]?.message ?? ''
+        }
+        if (!message && entryKey !== '' && !mapValueSchema(schema, entryKey)) {
+          message = `Key must match ${Object.keys(schema.patternProperties || {}).join(' or ')}`
+        }
+        seen.add(entryKey)
+        keyInput.setCustomValidity(message)
+        const entry = keyInput.closest('.schema-map-entry') as HTMLElement
+        entry.classList.toggle('schema-invalid', message !== '')
+        entry.querySelector('.schema-map-key-error')!.textContent = message
+      }
+    }
+    
+    const renderEntry = (entryKey: string, entryValue: any): HTMLElement => {
+      const mapPath = () => container.dataset.path ?? path
+      let currentKey = entryKey
+      let keySchema = mapValueSchema(schema, entryKey)
+      let currentSchema = valueSchemaFor(entryKey, entryValue)
+      
+      const renderValue = (v: any) => currentSchema
+        ? renderField('value', currentSchema, v, joinPath(mapPath(), currentKey), false, ctx)
+        : div({ class: 'schema-map-value-disallowed' })
+      let valueField = renderValue(entryValue)
+      
+      const keyInput = input({
+        type: 'text',
+        class: 'schema-map-key',
+        value: entryKey,
+        placeholder: 'Key',
+        'aria-label': 'Key',
+        'data-map-key': '',
+      })
+      
+      const entry = div(
+        { class: 'schema-map-entry' },
+        div({ class: 'schema-map-key-field' }, keyInput, div({ class: 'schema-map-key-error' })),
+        valueField,
+        button(
+          {
+            type: 'button',
+            class: 'schema-map-remove',
+            'aria-label': 'Remove entry',
+            onClick: () => {
+              entry.remove()
+              checkKeys()
+              announceStructure(container)
+            }
+          },
+          '×'
+        )
       )
+      entry.toggleAttribute('data-empty-key', entryKey === '')
+      
+      keyInput.addEventListener('input', () => {
+        const from = joinPath(mapPath(), currentKey)
+        currentKey = keyInput.value
+        entry.toggleAttribute('data-empty-key', currentKey === '')
+        
+        // A new key may select a different value schema (patternProperties)
+        const nextKeySchema = mapValueSchema(schema, currentKey)
+        if (!deepEqual(nextKeySchema, keySchema)) {
+          const currentValue = getValueByPath(collectFormData(valueField, schema), from)
+          keySchema = nextKeySchema
+          currentSchema = valueSchemaFor(currentKey, currentValue)
+          const replacement = renderValue(
+            currentValue ?? (currentSchema ? getDefaultValue(currentSchema, ctx.resolver) : undefined)
+          )
+          valueField.replaceWith(replacement)
+          valueField = replacement
+        } else {
+          rewritePathPrefix(valueField, from, joinPath(mapPath(), currentKey))
+        }
+        checkKeys()
+      })
+      
+      return entry
+    }
+    
+    for (const [entryKey, entryValue] of Object.entries(value || {})) {
+      if (!declared.includes(entryKey)) entries.append(renderEntry(entryKey, entryValue))
+    }
+    checkKeys()
+    
+    const addButton = button(
+      {
+        type: 'button',
+        class: 'schema-array-add schema-map-add',
+        onClick: () => {
+          const entry = renderEntry('', undefined)
+          entries.append(entry)
+          checkKeys()
+          const keyInput = entry.querySelector('.schema-map-key') as HTMLInputElement
+          keyInput.focus()
+          announceStructure(container)
+        }
+      },
+      '+ Add Entry'
     )
+    container.append(addButton)
+    
+    return container
   }
 
   // Render array field
@@ -562,24 +1805,90 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
     schema: JSONSchema,
     value: any[],
     path: string,
-    required: boolean
+    required: boolean,
+    ctx: RenderContext
   ): HTMLElement => {
     const fieldLabel = getLabel(key, schema)
-    const itemSchema = schema.items || { type: 'string' }
-    const itemVariants = getUnionVariants(itemSchema)
-    
-    const arrayContainer = div({ class: 'schema-array-items', 'data-path': path })
     
-    value.forEach((item, index) => {
-      if (itemVariants) {
-        const variantIndex = detectVariant(item, itemVariants)
-        arrayContainer.append(
-          renderArrayItem(itemVariants[variantIndex], item, `${path}[${index}]`, index, variantIndex)
+    // Tuples get fixed positional editors, followed by any variadic items
+    const tuple = getTupleSchemas(schema)
+    const offset = tuple ? tuple.prefix.length : 0
+    const positional = tuple
+      ? div(
+          { class: 'schema-tuple-items' },
+          ...tuple.prefix.map((positionSchema, index) =>
+            renderField(
+              `Item ${index + 1}`,
+              positionSchema,
+              value[index],
+              indexPath(path, index),
+              index < (schema.minItems ?? 0),
+              ctx
+            )
+          )
         )
-      } else {
-        arrayContainer.append(renderArrayItem(itemSchema, item, `${path}[${index}]`, index))
+      : ''
+    if (tuple?.rest === false) {
+      return makeCollapsible(fieldset(
+        { class: 'schema-array schema-tuple', 'data-path': path },
+        legend(fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
+        schema.description ? div({ class: 'description' }, schema.description) : '',
+        positional
+      ), schema, path, ctx)
+    }
+    
+    const itemSchema = tuple ? tuple.rest as JSONSchema : getItemSchema(schema)
+    const itemVariants = getUnionVariants(effectiveSchema(itemSchema, ctx.resolver), ctx.resolver)
+    
+    const arrayContainer = div({ class: 'schema-array-items', 'data-path': path, 'data-offset': offset })
+    const reorderable = schema['x-reorderable'] !== false
+    
+    // Render an existing item (in its variant), wherever the array is now
+    const renderItem = (item: any, index: number, variantIndex?: number): HTMLElement => {
+      const itemPath = indexPath(arrayContainer.dataset.path || path, index)
+      const variant = itemVariants ? variantIndex ?? detectVariant(item, itemVariants) : 0
+      const variantSchema = itemVariants?.[variant]
+      if (variantSchema) {
+        return renderArrayItem(variantSchema, item, itemPath, index, ctx, reorderable, variant)
       }
+      return renderArrayItem(inferValueSchema(itemSchema, item), item, itemPath, index, ctx, reorderable)
+    }
+    
+    value.slice(offset).forEach((item, i) => {
+      arrayContainer.append(renderItem(item, offset + i))
     })
+    // start with as many items as minItems asks for
+    for (let index = Math.max(value.length, offset); index < (schema.minItems ?? 0); index++) {
+      arrayContainer.append(itemVariants
+        ? renderItem(getDefaultValue(itemVariants[0]!, ctx.resolver), index, 0)
+        : renderItem(getDefaultValue(itemSchema, ctx.resolver), index))
+    }
+    
+    // Paste the last copied item at the end, if it's valid here
+    const pasteError = div({ class: 'schema-array-paste-error' })
+    const pasteButton = button(
+      {
+        type: 'button',
+        class: 'schema-array-paste',
+        onClick: () => {
+          const currentCount = offset + arrayContainer.querySelectorAll(':scope > .schema-array-item').length
+          if (schema.maxItems !== undefined && currentCount >= schema.maxItems) return
+          
+          const item = copiedItem === null ? undefined : JSON.parse(copiedItem)
+          const error = copiedItem === null ? undefined : validateData(item, itemSchema, { resolver: ctx.resolver })[0]
+          pasteError.textContent = copiedItem === null
+            ? 'Copy an item to paste it here'
+            : error ? `The copied item doesn't fit here: ${error.path ? `${error.path} ` : ''}${error.message}` : ''
+          if (pasteError.textContent) return
+          
+          arrayContainer.append(renderItem(item, currentCount))
+          reindexArrayItems(arrayContainer)
+          const added = indexPath(arrayContainer.dataset.path || path, currentCount)
+          announceStructure(arrayContainer, [{ op: 'add', path: parsePath(added) }])
+        }
+      },
+      'Paste'
+    )
     
     let addControls: HTMLElement
     
@@ -594,59 +1903,117 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
           type: 'button',
           class: 'schema-array-add',
           onClick: () => {
-            const currentCount = arrayContainer.querySelectorAll(':scope > .schema-array-item').length
+            const currentCount = offset + arrayContainer.querySelectorAll(':scope > .schema-array-item').length
             if (schema.maxItems !== undefined && currentCount >= schema.maxItems) return
             
             const selectedVariantIndex = parseInt(variantSelect.value, 10)
             const selectedVariant = itemVariants[selectedVariantIndex]
+            if (!selectedVariant) return
             
             const newItem = renderArrayItem(
               selectedVariant,
-              getDefaultValue(selectedVariant),
-              `${path}[${currentCount}]`,
+              getDefaultValue(selectedVariant, ctx.resolver),
+              indexPath(arrayContainer.dataset.path || path, currentCount),
               currentCount,
+              ctx,
+              reorderable,
               selectedVariantIndex
             )
             arrayContainer.append(newItem)
             reindexArrayItems(arrayContainer)
-            arrayContainer.dispatchEvent(new CustomEvent('schema-change', { bubbles: true }))
+            const added = indexPath(arrayContainer.dataset.path || path, currentCount)
+            announceStructure(arrayContainer, [{ op: 'add', path: parsePath(added) }])
           }
         },
         '+ Add'
       )
       
-      addControls = div({ class: 'schema-array-add-controls' }, variantSelect, addBtn)
+      addControls = div({ class: 'schema-array-add-controls' }, variantSelect, addBtn, pasteButton)
     } else {
-      addControls = button(
+      const addBtn = button(
         {
           type: 'button',
           class: 'schema-array-add',
           'data-path': path,
           onClick: () => {
-            const currentCount = arrayContainer.querySelectorAll(':scope > .schema-array-item').length
+            const currentCount = offset + arrayContainer.querySelectorAll(':scope > .schema-array-item').length
             if (schema.maxItems !== undefined && currentCount >= schema.maxItems) return
             
             const newItem = renderArrayItem(
-              itemSchema,
-              getDefaultValue(itemSchema),
-              `${path}[${currentCount}]`,
-              currentCount
+              inferValueSchema(itemSchema, undefined),
+              getDefaultValue(itemSchema, ctx.resolver),
+              indexPath(arrayContainer.dataset.path || path, currentCount),
+              currentCount,
+              ctx,
+              reorderable
             )
             arrayContainer.append(newItem)
             reindexArrayItems(arrayContainer)
-            arrayContainer.dispatchEvent(new CustomEvent('schema-change', { bubbles: true }))
+            const added = indexPath(arrayContainer.dataset.path || path, currentCount)
+            announceStructure(arrayContainer, [{ op: 'add', path: parsePath(added) }])
           }
         },
         '+ Add Item'
       )
+      
+      addControls = div({ class: 'schema-array-add-controls' }, addBtn, pasteButton)
     }
     
-    return fieldset(
-      { class: 'schema-array', 'data-path': path },
+    // minItems, maxItems and uniqueItems are enforced by disabling controls where possible, and
+    // otherwise flagged through a stand-in input, so they count towards the form's validity
+    const limitNote = div({ class: 'schema-array-limit' })
+    const arrayError = div({ class: 'schema-array-error' })
+    const validity = input({ type: 'text', class: 'schema-array-validity', tabindex: -1, 'aria-hidden': 'true' })
+    const addButton = addControls.querySelector('.schema-array-add') as HTMLButtonElement
+    
+    const locked = !!(ctx.readOnly || ctx.disabled)
+    const checkItems = () => {
+      const items = [...arrayContainer.querySelectorAll(':scope > .schema-array-item')] as HTMLElement[]
+      const count = offset + items.length
+      const atMax = schema.maxItems !== undefined && count >= schema.maxItems
+      const atMin = schema.minItems !== undefined && count <= schema.minItems
+      
+      addButton.disabled = locked || atMax
+      pasteButton.disabled = locked || atMax
+      limitNote.textContent = atMax ? `Maximum of ${countItems(schema.maxItems!)} reached` : ''
+      for (const item of items) {
+        const remove = item.querySelector(':scope > .schema-array-remove') as HTMLButtonElement | null
+        const duplicate = item.querySelector(':scope > .schema-array-actions > .schema-array-duplicate') as HTMLButtonElement | null
+        if (remove) remove.disabled = locked || atMin
+        if (remove) remove.title = atMin && !locked ? `At least ${countItems(schema.minItems!)} required` : ''
+        if (duplicate) duplicate.disabled = locked || atMax
+      }
+      
+      const values = schema.uniqueItems ? items.map(arrayItemValue) : []
+      const clashing = items.filter((_, i) => values.some((other, j) => j !== i && deepEqual(values[i], other)))
+      items.forEach(item => item.classList.toggle('schema-duplicate-item', clashing.includes(item)))
+      
+      const message = clashing.length > 0
+        ? 'Items must be unique'
+        : schema.maxItems !== undefined && count > schema.maxItems
+          ? `No more than ${countItems(schema.maxItems)} allowed`
+          : schema.minItems !== undefined && count < schema.minItems
+            ? `At least ${countItems(schema.minItems!)} required`
+            : ''
+      validity.setCustomValidity(message)
+      arrayError.textContent = message
+    }
+    renderedArrays.set(arrayContainer, { renderItem, maxItems: schema.maxItems, checkItems })
+    arrayContainer.addEventListener('input', checkItems)
+    arrayContainer.addEventListener('change', checkItems)
+    checkItems()
+    
+    return makeCollapsible(fieldset(
+      { class: tuple ? 'schema-array schema-tuple' : 'schema-array', 'data-path': path },
       legend(fieldLabel, required ? span({ class: 'required' }, ' *') : ''),
       schema.description ? div({ class: 'description' }, schema.description) : '',
+      positional,
       arrayContainer,
       addControls,
+      limitNote,
+      pasteError,
+      arrayError,
+      validity,
       schema.minItems !== undefined || schema.maxItems !== undefined
         ? div(
             { class: 'array-constraints' },
@@ -655,22 +2022,62 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
             schema.maxItems !== undefined ? `Max: ${schema.maxItems}` : ''
           )
         : ''
-    )
+    ), schema, path, ctx)
   }
 
-  // Render a single array item with remove button
+  // Insert an array item at a position, moving the items after it along first
+  // (so no two items ever share a data-path, or their radio groups a name)
+  const insertArrayItem = (container: HTMLElement, position: number, render: (index: number) => HTMLElement) => {
+    const items = container.querySelectorAll(':scope > .schema-array-item')
+    const placeholder = div({ class: 'schema-array-item' })
+    container.insertBefore(placeholder, items[position] ?? null)
+    reindexArrayItems(container)
+    placeholder.replaceWith(render(Number(placeholder.dataset.index)))
+    renderedArrays.get(container)?.checkItems()
+  }
+  
+  // The item being dragged by its handle, if any
+  let draggedItem: HTMLElement | null = null
+  
+  // An array item's position among the variadic items of its array
+  const itemPosition = (item: HTMLElement): number =>
+    Number(item.dataset.index) - Number(item.parentElement?.dataset.offset || 0)
+  
+  // Move an array item to another position in its array, keeping focus where it was
+  const moveArrayItem = (item: HTMLElement, position: number) => {
+    const container = item.parentElement as HTMLElement
+    const items = [...container.querySelectorAll(':scope > .schema-array-item')]
+    const from = items.indexOf(item)
+    if (item.matches('.schema-readonly, .schema-disabled')) return
+    if (from < 0 || position < 0 || position >= items.length || position === from) return
+    
+    const active = item.ownerDocument.activeElement
+    const focused = active && item.contains(active) ? active as HTMLElement : null
+    items.splice(from, 1)
+    container.insertBefore(item, items[position] ?? null)
+    reindexArrayItems(container)
+    focused?.focus()
+    
+    const arrayPath = parsePath(container.dataset.path || '')
+    const offset = Number(container.dataset.offset || 0)
+    announceStructure(container, [{ op: 'move', from: [...arrayPath, offset + from], path: [...arrayPath, offset + position] }])
+  }
+
+  // Render a single array item with remove button (and, if reorderable, a drag handle and move buttons)
   const renderArrayItem = (
     schema: JSONSchema,
     value: any,
     path: string,
     index: number,
+    ctx: RenderContext,
+    reorderable: boolean,
     variantIndex?: number
   ): HTMLElement => {
     const itemLabel = variantIndex !== undefined 
       ? getVariantLabel(schema, variantIndex)
       : `Item ${index + 1}`
     
-    const itemContent = renderField(itemLabel, schema, value, path, false)
+    const itemContent = renderField(itemLabel, schema, value, path, false, ctx)
     
     const removeButton = button(
       {
@@ -681,45 +2088,280 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
           const btn = event.target as HTMLElement
           const item = btn.closest('.schema-array-item') as HTMLElement
           const container = item.parentElement as HTMLElement
+          const removed = indexPath(container.dataset.path || '', Number(item.dataset.index))
           item.remove()
           reindexArrayItems(container)
-          container.dispatchEvent(new CustomEvent('schema-change', { bubbles: true }))
+          announceStructure(container, [{ op: 'remove', path: parsePath(removed) }])
         }
       },
       '×'
     )
     
+    // a deep copy of the item's current value, in the same variant, right after it
+    const duplicateButton = button(
+      {
+        type: 'button',
+        class: 'schema-array-duplicate',
+        'aria-label': 'Duplicate item',
+        onClick: (event: Event) => {
+          const item = (event.target as HTMLElement).closest('.schema-array-item') as HTMLElement
+          const container = item.parentElement as HTMLElement
+          const array = renderedArrays.get(container)
+          const count = Number(container.dataset.offset || 0) + container.querySelectorAll(':scope > .schema-array-item').length
+          if (!array || (array.maxItems !== undefined && count >= array.maxItems)) return
+          
+          const value = arrayItemValue(item)
+          const variant = item.dataset.variant === undefined ? undefined : Number(item.dataset.variant)
+          insertArrayItem(container, itemPosition(item) + 1, at => array.renderItem(value, at, variant))
+          const added = indexPath(container.dataset.path || '', Number(item.dataset.index) + 1)
+          announceStructure(container, [{ op: 'add', path: parsePath(added) }])
+        }
+      },
+      '⧉'
+    )
+    
+    const copyButton = button(
+      {
+        type: 'button',
+        class: 'schema-array-copy',
+        'aria-label': 'Copy item',
+        onClick: (event: Event) => {
+          const item = (event.target as HTMLElement).closest('.schema-array-item') as HTMLElement
+          copiedItem = JSON.stringify(arrayItemValue(item) ?? null)
+          // also offered to other apps, where the clipboard can be written
+          globalThis.navigator?.clipboard?.writeText(copiedItem).catch(() => {})
+        }
+      },
+      '⎘'
+    )
+    
     const attrs: Record<string, any> = { class: 'schema-array-item', 'data-index': index }
     if (variantIndex !== undefined) {
       attrs['data-variant'] = variantIndex
     }
+    const lock = (item: HTMLElement) => {
+      if (ctx.readOnly || ctx.disabled) lockField(item, !!ctx.disabled)
+      return item
+    }
+    if (!reorderable) {
+      return lock(div(attrs, removeButton, div({ class: 'schema-array-actions' }, duplicateButton, copyButton), itemContent))
+    }
+    
+    const moveButton = (className: string, ariaLabel: string, step: number, text: string) => button(
+      {
+        type: 'button',
+        class: className,
+        'aria-label': ariaLabel,
+        onClick: (event: Event) => {
+          const item = (event.target as HTMLElement).closest('.schema-array-item') as HTMLElement
+          moveArrayItem(item, itemPosition(item) + step)
+        }
+      },
+      text
+    )
+    
+    // items are only draggable by their handle, so text in their inputs can still be selected
+    const dragHandle = span({
+      class: 'schema-array-drag',
+      title: 'Drag to reorder',
+      onPointerdown: (event: Event) => {
+        (event.target as HTMLElement).closest('.schema-array-item')?.setAttribute('draggable', 'true')
+      },
+      onPointerup: (event: Event) => {
+        (event.target as HTMLElement).closest('.schema-array-item')?.removeAttribute('draggable')
+      },
+    }, '⠿')
     
-    return div(attrs, removeButton, itemContent)
+    const canDropOn = (target: HTMLElement) =>
+      draggedItem !== null && draggedItem !== target && draggedItem.parentElement === target.parentElement
+    
+    const item: HTMLElement = div(
+      {
+        ...attrs,
+        onKeydown: (event: KeyboardEvent) => {
+          if (!event.altKey || (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')) return
+          event.preventDefault()
+          // only the innermost item moves
+          event.stopPropagation()
+          moveArrayItem(item, itemPosition(item) + (event.key === 'ArrowUp' ? -1 : 1))
+        },
+        onDragstart: (event: DragEvent) => {
+          if (item.getAttribute('draggable') !== 'true') return
+          event.stopPropagation()
+          draggedItem = item
+          event.dataTransfer?.setData('text/plain', '')
+          if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move'
+        },
+        onDragover: (event: DragEvent) => {
+          if (!canDropOn(item)) return
+          event.preventDefault()
+          event.stopPropagation()
+          if (event.dataTransfer) event.dataTransfer.dropEffect = 'move'
+        },
+        onDrop: (event: DragEvent) => {
+          if (!canDropOn(item)) return
+          event.preventDefault()
+          event.stopPropagation()
+          moveArrayItem(draggedItem!, itemPosition(item))
+        },
+        onDragend: () => {
+          item.removeAttribute('draggable')
+          draggedItem = null
+        },
+      },
+      removeButton,
+      div(
+        { class: 'schema-array-actions' },
+        duplicateButton,
+        copyButton,
+        div(
+          { class: 'schema-array-reorder' },
+          dragHandle,
+          moveButton('schema-array-move-up', 'Move item up', -1, '↑'),
+          moveButton('schema-array-move-down', 'Move item down', 1, '↓')
+        )
+      ),
+      itemContent
+    )
+    return lock(item)
   }
 
-  // Reindex array items after add/remove
+  // Reindex array items after they're added, removed or moved, pointing each item's
+  // data-paths (including those of arrays nested inside it) at its new index, then
+  // re-check the array's limits
   const reindexArrayItems = (container: HTMLElement) => {
-    const items = container.querySelectorAll(':scope > .schema-array-item')
+    const items = [...container.querySelectorAll(':scope > .schema-array-item')] as HTMLElement[]
+    const arrayPath = container.dataset.path || ''
+    // tuple positions come before the variadic items
+    const offset = Number(container.dataset.offset || 0)
     
-    items.forEach((item, index: number) => {
-      item.setAttribute('data-index', String(index))
-      
-      const pathElements = item.querySelectorAll('[data-path]')
-      pathElements.forEach((el: Element) => {
-        const currentPath = el.getAttribute('data-path') || ''
-        const newPath = currentPath.replace(/\[\d+\]/, `[${index}]`)
-        el.setAttribute('data-path', newPath)
-        if (el.hasAttribute('name')) {
-          el.setAttribute('name', newPath)
-        }
-      })
-    })
+    const moved = items
+      .map((item, i) => ({ item, from: fieldPath(item), to: indexPath(arrayPath, offset + i) }))
+      .filter(({ from, to }) => from !== null && from !== to)
+    // go by way of unique temporary paths, so no two items' radio groups ever share a name
+    moved.forEach(({ item, from }, i) => rewritePathPrefix(item, from!, `${arrayPath}[~${i}]`))
+    moved.forEach(({ item, to }, i) => rewritePathPrefix(item, `${arrayPath}[~${i}]`, to))
+    
+    items.forEach((item, i) => item.setAttribute('data-index', String(offset + i)))
+    renderedArrays.get(container)?.checkItems()
+  }
+
+  // View mode shows values as text: objects as definition lists, arrays as numbered lists
+  const renderViewValue = (fieldSchema: JSONSchema, value: any, path: string, ctx: RenderContext): HTMLElement => {
+    const schema = effectiveSchema(fieldSchema, ctx.resolver)
+    const ui = getUiSchema(ctx.uiSchema, path)
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return span({ class: 'schema-view-empty' }, '—')
+    }
+    // write-only values (passwords and the like) are never shown
+    if (schema.writeOnly === true || schema.format === 'password' || ui['ui:widget'] === 'password') {
+      return span({ class: 'schema-view-masked', 'aria-label': 'Hidden' }, '••••••••')
+    }
+    
+    if (Array.isArray(schema.type) && schema.type.length > 1) {
+      const type = schema.type.find(t => t !== 'null' && matchesType(value, t)) ?? schema.type[0]
+      return renderViewValue({ ...schema, type }, value, path, ctx)
+    }
+    
+    const variants = getUnionVariants(schema, ctx.resolver)
+    if (variants) {
+      const index = detectVariant(value, variants)
+      const variant = variants[index]!
+      if (variants.every(v => v.const !== undefined)) {
+        return span({ class: 'schema-view-value' }, variant.title ?? formatValue(variant, value))
+      }
+      return div(
+        { class: 'schema-view-union' },
+        span({ class: 'schema-view-variant' }, getVariantLabel(variant, index)),
+        renderViewValue(variant, value, path, ctx)
+      )
+    }
+    
+    if (Array.isArray(value)) {
+      const tuple = getTupleSchemas(schema)
+      return ol(
+        { class: 'schema-view-list' },
+        ...value.map((item, i) => li(renderViewValue(
+          tuple ? tuple.prefix[i] ?? (tuple.rest || {}) : getItemSchema(schema),
+          item,
+          indexPath(path, i),
+          ctx
+        )))
+      )
+    }
+    if (typeof value === 'object') return renderViewObject(schema, value, path, ctx)
+    return span({ class: 'schema-view-value' }, formatValue(schema, value))
+  }
+  
+  // An object's properties as a definition list, in ui:order, followed by any map entries
+  const renderViewObject = (schema: JSONSchema, value: Record<string, any>, path: string, ctx: RenderContext): HTMLElement => {
+    const { schema: effective } = applyConditionals(schema, value, ctx.resolver)
+    const properties = effective.properties || {}
+    const ui = path ? getUiSchema(ctx.uiSchema, path) : ctx.uiSchema
+    const declared = orderKeys(Object.keys(properties), ui['ui:order'])
+    const entries = isMapSchema(effective) || !effective.properties
+      ? Object.keys(value).filter(key => !declared.includes(key) && mapValueSchema(effective, key))
+      : []
+    
+    const list = dl({ class: 'schema-view-object' }) as HTMLElement
+    for (const key of [...declared, ...entries]) {
+      const propPath = joinPath(path, key)
+      const propUi = getUiSchema(ctx.uiSchema, propPath)
+      if (propUi['ui:hidden'] || propUi['ui:widget'] === 'hidden') continue
+      const propSchema = properties[key] ?? mapValueSchema(effective, key)!
+      list.append(
+        dt(properties[key] ? getLabel(key, effectiveSchema(propSchema, ctx.resolver)) : key),
+        dd({ 'data-path': propPath }, renderViewValue(propSchema, value[key], propPath, ctx))
+      )
+    }
+    return list
   }
 
   // The component class
   class SchemaForm extends Component<SchemaFormParts> {
     private _schema: JSONSchema = {}
     private _data: any = {}
+    private _refResolver?: RefResolver
+    private _uiSchema: UISchema = {}
+    private _statePath = ''
+    // the bound state and the form's data as last synced, to diff each side against
+    private _stateSnapshot: any
+    private _formSnapshot: any
+    private _unobserveState?: () => void
+    private _patching = false
+    // where the data lives in the form: '' for object schemas, 'data' for anything else
+    private _rootPath = ''
+    // top-level keys the form has fields for (null when it can show any key)
+    private _rootKeys: Set<string> | null = null
+    // schema, uiSchema or refResolver changed since the last render
+    private _stale = false
+    // data assigned while a render was pending, replacing any edits
+    private _dataReplaced = false
+    // the data couldn't be patched in, so the next render builds the form afresh
+    private _rebuild = false
+    // what $refs resolved against last render, to tell whether fields using them can be kept
+    private _refSources?: { defs: any[], resolver?: RefResolver }
+    private _history = createHistory()
+    // data-paths of collapsed sections
+    private _collapsed = new Set<string>()
+    private _readOnly = false
+    private _disabled = false
+    private _mode: 'edit' | 'view' = 'edit'
+    // how the rendered form's fields were locked ('', 'readonly' or 'disabled')
+    private _renderedLock = ''
+    private _wizard = false
+    private _steps: WizardStep[] = []
+    private _step = 0
+    // the furthest step reached, which any step before can be jumped back to from
+    private _reached = 0
+    private _autosave: AutosaveOptions | null = null
+    private _autosaveTimer?: ReturnType<typeof setTimeout>
+    // whether storage has been checked for a draft under the autosave key
+    private _draftChecked = false
+    // a draft that differs from the data, which can be restored, and whether the form offers it
+    private _draft: Draft | null = null
+    private _draftOffered = false
+    private _flushDraft = () => this.saveDraft()
 
     get schema(): JSONSchema {
       return this._schema
@@ -727,61 +2369,839 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
 
     set schema(s: JSONSchema) {
       this._schema = s
+      this._stale = true
+      this.queueRender()
+    }
+
+    // Looks up external $ref documents, e.g. mapResolver({ 'common.json': {...} })
+    get refResolver(): RefResolver | undefined {
+      return this._refResolver
+    }
+
+    set refResolver(resolver: RefResolver | undefined) {
+      this._refResolver = resolver
+      this._stale = true
       this.queueRender()
     }
 
-    get data(): any {
-      return this._data
+    // Presentation hints (order, layout, widgets, help text) mirroring the schema's structure
+    get uiSchema(): UISchema {
+      return this._uiSchema
+    }
+
+    set uiSchema(ui: UISchema) {
+      this._uiSchema = ui
+      this._stale = true
+      this.queueRender()
+    }
+
+    // Show the fields without letting them be edited; their text can still be selected and copied
+    get readOnly(): boolean {
+      return this._readOnly
+    }
+
+    set readOnly(readOnly: boolean) {
+      this._readOnly = readOnly
+      this._stale = true
+      this.queueRender()
+    }
+
+    // Show the fields disabled, e.g. while the data is being saved
+    get disabled(): boolean {
+      return this._disabled
+    }
+
+    set disabled(disabled: boolean) {
+      this._disabled = disabled
+      this._stale = true
+      this.queueRender()
+    }
+
+    // 'edit' renders inputs; 'view' renders the data as text, in definition lists
+    get mode(): 'edit' | 'view' {
+      return this._mode
+    }
+
+    set mode(mode: 'edit' | 'view') {
+      this._mode = mode
+      this._stale = true
+      this.queueRender()
+    }
+
+    /**
+     * Show an object schema's properties a step at a time, with a list of the steps, Back and
+     * Next buttons, and each step validated before moving on. Steps are named by the properties'
+     * `x-step`s, or else each object property is a step of its own. `getData()` still returns
+     * the whole document.
+     *
+     * @example
+     * form.wizard = true
+     * form.addEventListener('schema-step-change', (e) => save(e.detail.step, e.detail.data))
+     */
+    get wizard(): boolean {
+      return this._wizard
+    }
+
+    set wizard(wizard: boolean) {
+      this._wizard = wizard
+      this._stale = true
+      this.queueRender()
+    }
+
+    // The wizard's steps, as of the last render
+    get steps(): WizardStep[] {
+      return this._steps
+    }
+
+    // The index of the wizard step shown. Setting it goes straight there (e.g. to restore
+    // saved progress), counting the steps before it as done.
+    get step(): number {
+      return this._step
+    }
+
+    set step(index: number) {
+      this.showStep(index)
+    }
+
+    // Validate the current step and, if it's valid, move on to the next
+    nextStep(): boolean {
+      if (this._step >= this._steps.length - 1 || !this.validateStep()) return false
+      this.showStep(this._step + 1)
+      return true
+    }
+
+    previousStep(): boolean {
+      if (this._step === 0) return false
+      this.showStep(this._step - 1)
+      return true
+    }
+
+    // Go to a step already reached: back at any time, forward only if the current step is valid
+    goToStep(index: number): boolean {
+      if (index < 0 || index > this._reached || index === this._step) return false
+      if (index > this._step && !this.validateStep()) return false
+      this.showStep(index)
+      return true
+    }
+
+    get data(): any {
+      return this._data
+    }
+
+    // Assigning data patches the rendered form in place, keeping focus and caret position,
+    // and starts a new undo history. Any draft is saved first and checked again against it.
+    set data(d: any) {
+      this._history.clear()
+      this.announceHistory()
+      this.saveDraft()
+      this._draft = null
+      this._draftChecked = false
+      this.renderDraftOffer()
+      const formEl = this.querySelector('form') as HTMLFormElement | null
+      if (formEl && !this._stale) {
+        const changes = diffData(this.currentData(), d)
+        this._data = d
+        this.patchChanges(formEl, d, changes)
+        this.checkDraft()
+      } else {
+        this._data = d
+        this._dataReplaced = true
+        this.queueRender()
+      }
+    }
+
+    /**
+     * Bind the form to tosijs state, by path or with a proxy from `xin` / `boxed`. The form
+     * shows the state's value, writes edits back to it as they happen, and patches changes
+     * made elsewhere into the rendered fields.
+     *
+     * @example
+     * tosi({ app: { order: { customer: { name: 'Ada' } } } })
+     * form.statePath = 'app.order'
+     */
+    get statePath(): string {
+      return this._statePath
+    }
+
+    set statePath(path: string | { tosiPath: string }) {
+      this._statePath = typeof path === 'string' ? path : path.tosiPath
+      if (this._statePath) {
+        this._data = this.readState()
+        this._stateSnapshot = structuredClone(this._data)
+      }
+      this.observeState()
+      this.queueRender()
+    }
+
+    override connectedCallback(): void {
+      super.connectedCallback()
+      this.observeState()
+      // a draft waiting to be saved is saved as the page goes away
+      window.addEventListener('pagehide', this._flushDraft)
+    }
+
+    override disconnectedCallback(): void {
+      super.disconnectedCallback()
+      this._unobserveState?.()
+      this._unobserveState = undefined
+      window.removeEventListener('pagehide', this._flushDraft)
+      this.saveDraft()
+    }
+
+    /**
+     * Save drafts of the data as it's edited (a moment after the last edit), so work isn't
+     * lost with the tab. When the form is next rendered with the same key, a draft that
+     * differs from its data is offered to be restored, above the form (`schema-draft` is
+     * sent first; cancel it to make the offer yourself, with `restoreDraft()` and
+     * `discardDraft()`). Drafts saved with a schema that differs in what data fits it are
+     * discarded, unless `migrate` turns them into data for this one. Submitting the form
+     * discards its draft; `null` stops autosaving.
+     *
+     * @example
+     * form.autosave = { key: 'new-order' }
+     * form.autosave = { key: `order-${id}`, storage: indexedDbDrafts(), delay: 500 }
+     */
+    get autosave(): AutosaveOptions | null {
+      return this._autosave
+    }
+
+    set autosave(options: AutosaveOptions | null) {
+      this.saveDraft()
+      this._autosave = options?.key ? { ...options, storage: options.storage ?? localStorageDrafts() } : null
+      this._draft = null
+      this._draftChecked = false
+      if (this.querySelector('form')) this.checkDraft()
+      this.renderDraftOffer()
+    }
+
+    // The draft on offer to be restored, if any
+    get draft(): Draft | null {
+      return this._draft
+    }
+
+    // Restore the draft on offer, as an edit that can be undone
+    restoreDraft(): boolean {
+      const draft = this._draft
+      if (!draft) return false
+      this._draft = null
+      this.renderDraftOffer()
+      const changes = this.updateData(toJsonPatch(diffData(this.currentData(), draft.data)))
+      if (changes.length > 0) {
+        this._history.record(changes)
+        this.announceChanges(changes)
+      }
+      return true
+    }
+
+    // Decline the draft on offer, and delete any draft saved under the autosave key
+    discardDraft(): void {
+      this._draft = null
+      this.renderDraftOffer()
+      clearTimeout(this._autosaveTimer)
+      this._autosaveTimer = undefined
+      const options = this._autosave
+      options?.storage!.remove(options.key).catch(() => {})
+    }
+
+    // Look for a draft under the autosave key once (per assignment of data), and offer it if
+    // it isn't the form's data
+    private checkDraft(): void {
+      const options = this._autosave
+      if (!options || this._draftChecked) return
+      this._draftChecked = true
+      options.storage!.load(options.key).then(draft => {
+        // an earlier check may have offered it already
+        if (!draft || options !== this._autosave || this._draft) return
+        const fingerprint = schemaFingerprint(this._schema)
+        const data = draft.fingerprint === fingerprint ? draft.data : options.migrate?.(draft)
+        if (data === undefined) {
+          options.storage!.remove(options.key).catch(() => {})
+          return
+        }
+        if (deepEqual(data, this.currentData())) return
+        
+        this._draft = { data, fingerprint, savedAt: draft.savedAt }
+        this._draftOffered = this.dispatchEvent(new CustomEvent('schema-draft', {
+          bubbles: true,
+          cancelable: true,
+          detail: { data, savedAt: draft.savedAt }
+        }))
+        this.renderDraftOffer()
+      }).catch(() => {})
+    }
+
+    // Save a draft a moment after the last edit. Editing declines a draft on offer.
+    private queueDraftSave(): void {
+      if (!this._autosave) return
+      if (this._draft) {
+        this._draft = null
+        this.renderDraftOffer()
+      }
+      clearTimeout(this._autosaveTimer)
+      this._autosaveTimer = setTimeout(this._flushDraft, this._autosave.delay ?? 1000)
+    }
+
+    // Save the draft waiting to be saved, if any, now
+    private saveDraft(): void {
+      const options = this._autosave
+      if (!options || this._autosaveTimer === undefined) return
+      clearTimeout(this._autosaveTimer)
+      this._autosaveTimer = undefined
+      const draft: Draft = { data: this.currentData(), fingerprint: schemaFingerprint(this._schema), savedAt: Date.now() }
+      options.storage!.save(options.key, draft).catch(() => {})
+    }
+
+    // The offer to restore a draft, above the form
+    private renderDraftOffer(): void {
+      this.querySelector(':scope > .schema-draft')?.remove()
+      const draft = this._draft
+      const locked = this._readOnly || this._disabled || this._mode === 'view'
+      if (!draft || !this._draftOffered || locked || !this.querySelector(':scope > form')) return
+      
+      this.prepend(div(
+        { class: 'schema-draft', role: 'status' },
+        span({ class: 'schema-draft-message' }, `You have unsaved changes from ${new Date(draft.savedAt).toLocaleString()}.`),
+        button({ type: 'button', class: 'schema-draft-restore', onClick: () => this.restoreDraft() }, 'Restore'),
+        button({ type: 'button', class: 'schema-draft-discard', onClick: () => this.discardDraft() }, 'Discard')
+      ))
+    }
+
+    private readState(): any {
+      const value: unknown = xin[this._statePath]
+      if (value === null || typeof value !== 'object') return value
+      return (value as StateProxy).tosiValue ?? value
+    }
+
+    // Observe the bound path, or the nearest part of the state above it that exists yet
+    private observeState(): void {
+      this._unobserveState?.()
+      this._unobserveState = undefined
+      if (!this._statePath || !this.isConnected) return
+      
+      for (let path = this._statePath; path; path = parentPath(path)) {
+        const proxy: StateProxy | undefined = boxed[path]
+        if (proxy?.tosiObserve) {
+          this._unobserveState = proxy.tosiObserve(() => this.syncFromState())
+          return
+        }
+      }
+    }
+
+    // The form's data, unwrapped for non-object roots
+    private formValue(): any {
+      const data = this.getData()
+      return this._rootPath ? data?.[this._rootPath] : data
+    }
+
+    // The data with any edits made in the form since it was last rendered or patched
+    private currentData(): any {
+      if (!this.querySelector('form')) return this._data
+      const value = this.formValue()
+      const changes = diffData(this._formSnapshot, value)
+      if (changes.length === 0) return this._data
+      if (changes.some(change => change.path.length === 0) || this._data === null || typeof this._data !== 'object') {
+        return value
+      }
+      const data = structuredClone(this._data)
+      applyChanges(data, changes)
+      return data
+    }
+
+    // Patch changes to the data into the rendered form, only rendering afresh if they can't be
+    private patchChanges(formEl: HTMLFormElement, value: any, changes: DataChange[]): void {
+      const rootPath = this._rootPath
+      const rootKeys = this._rootKeys
+      // keys the form has no fields for are carried in the data but not shown
+      const shown = changes.filter(change =>
+        change.path.length === 0 || !rootKeys || rootKeys.has(String(change.path[0]))
+      )
+      const data = rootPath ? { [rootPath]: value } : value
+      const formChanges = rootPath
+        ? shown.map(change => ({ ...change, path: [rootPath, ...change.path] }))
+        : shown
+      
+      this._patching = true
+      try {
+        if (!patchForm(formEl, data, formChanges)) {
+          this._formSnapshot = this.formValue()
+          this._rebuild = true
+          this.render()
+        }
+      } finally {
+        this._patching = false
+      }
+      this._formSnapshot = this.formValue()
+      // fields rendered afresh start out shown, whatever step they're in
+      if (this._wizard) this.hideOtherSteps()
+    }
+
+    // Patch changes made to the bound state into the form
+    private syncFromState(): void {
+      const value = this.readState()
+      const changes = diffData(this._stateSnapshot, value)
+      if (changes.length === 0) return
+      this._stateSnapshot = structuredClone(value)
+      this._data = value
+      
+      const formEl = this.querySelector('form') as HTMLFormElement | null
+      if (formEl && !this._stale) this.patchChanges(formEl, value, changes)
+      else if (!formEl) this.queueRender()
+    }
+
+    /**
+     * Record the user's edits: fold them into `data`, write them to any bound state and
+     * announce them with a `schema-change` event carrying a JSON Patch, and add them to the
+     * undo history. `hints` describe structural edits a diff would misdescribe, and are used
+     * if they account for the change; typing into one field is coalesced by its path.
+     */
+    private commitEdits(hints?: DataChange[], typingPath?: string): void {
+      if (this._patching) return
+      const before = this._formSnapshot
+      const value = this.formValue()
+      let changes = diffData(before, value)
+      if (changes.length === 0) return
+      
+      if (hints && hints.length > 0) {
+        const rootPath = this._rootPath
+        const hinted = hints.map(({ op, path, from }) => {
+          const parts = rootPath ? path.slice(1) : path
+          if (op === 'move') return { op, from: rootPath ? from?.slice(1) : from, path: parts }
+          const at = formatPath(parts)
+          const change: DataChange = { op, path: parts }
+          if (op !== 'remove') change.value = at ? getValueByPath(value, at) : value
+          if (op !== 'add') change.previous = at ? getValueByPath(before, at) : before
+          return change
+        })
+        const expected = structuredClone(before)
+        applyChanges(expected, structuredClone(hinted))
+        if (deepEqual(expected, value)) changes = hinted
+      }
+      this._formSnapshot = value
+      
+      if (this._statePath) {
+        this.writeState(value, changes)
+      } else if (this._data === null || typeof this._data !== 'object' || changes.some(change => change.path.length === 0)) {
+        this._data = structuredClone(value)
+      } else {
+        this._data = structuredClone(this._data)
+        applyChanges(this._data, structuredClone(changes))
+      }
+      
+      this._history.record(changes, typingPath)
+      this.announceChanges(changes)
+    }
+
+    private announceChanges(changes: DataChange[]): void {
+      this.dispatchEvent(new CustomEvent('schema-change', {
+        bubbles: true,
+        detail: { patch: toJsonPatch(changes), data: this.getData() }
+      }))
+      this.announceHistory()
+      this.queueDraftSave()
+    }
+
+    private announceHistory(): void {
+      this.dispatchEvent(new CustomEvent('schema-history', {
+        bubbles: true,
+        detail: { canUndo: this.canUndo, canRedo: this.canRedo }
+      }))
+    }
+
+    // Can the last edit be undone?
+    get canUndo(): boolean {
+      return this._history.canUndo()
+    }
+
+    // Can the last undone edit be redone?
+    get canRedo(): boolean {
+      return this._history.canRedo()
+    }
+
+    /**
+     * Undo the last edit: a burst of typing in one field, an array item added, removed or
+     * moved, a union variant switched and so on. Also bound to Ctrl/Cmd+Z within the form.
+     * Returns false if there was nothing to undo.
+     */
+    undo(): boolean {
+      // typing that hasn't been reported yet is an edit of its own
+      this.commitEdits()
+      return this.replay(this._history.undo())
+    }
+
+    // Redo the last undone edit (Shift+Ctrl/Cmd+Z within the form)
+    redo(): boolean {
+      this.commitEdits()
+      return this.replay(this._history.redo())
+    }
+
+    private replay(changes?: DataChange[]): boolean {
+      if (!changes) return false
+      this.announceChanges(this.updateData(toJsonPatch(changes)))
+      return true
+    }
+
+    // Write changes to the bound state, leaving anything under the path they don't touch alone
+    private writeState(value: any, changes: DataChange[]): void {
+      const state: unknown = xin[this._statePath]
+      if (state === null || typeof state !== 'object' || changes.some(change => change.path.length === 0)) {
+        xin[this._statePath] = structuredClone(value)
+      } else {
+        applyChanges(state, structuredClone(changes))
+      }
+      this._data = this.readState()
+      this._stateSnapshot = structuredClone(this._data)
+    }
+
+    /**
+     * Apply JSON Patch operations, or set the value at one data-path, updating only the
+     * fields they affect. Array items are added and removed in place, so nothing the user
+     * is typing elsewhere in the form is lost. Like assigning `data`, this doesn't send
+     * `schema-change`; a bound state is updated too.
+     *
+     * @example
+     * form.applyPatch([{ op: 'add', path: '/items/1', value: { sku: 'X1', quantity: 1 } }])
+     * form.applyPatch('customer.email', 'ada@example.com')
+     */
+    applyPatch(patch: JsonPatchOperation[] | string, value?: any): void {
+      if (typeof patch !== 'string') {
+        this.updateData(patch)
+        return
+      }
+      // a value that isn't there yet (or is in a container that isn't) is added
+      const op = getValueByPath(this.currentData(), patch) === undefined ? 'add' : 'replace'
+      this.updateData([{ op, path: toPointer(parsePath(patch)), value }])
+    }
+
+    // Apply JSON Patch operations to the data, the bound state and the rendered form
+    private updateData(operations: JsonPatchOperation[]): DataChange[] {
+      const current = this.currentData()
+      const { data, changes } = applyJsonPatch(current === undefined ? undefined : structuredClone(current), operations)
+      if (changes.length === 0) return changes
+      
+      if (this._statePath) this.writeState(data, changes)
+      else this._data = data
+      
+      const formEl = this.querySelector('form') as HTMLFormElement | null
+      if (formEl && !this._stale) {
+        this.patchChanges(formEl, data, changes)
+      } else {
+        this._dataReplaced = true
+        this.queueRender()
+      }
+      return changes
+    }
+
+    getData(): any {
+      const formEl = this.querySelector('form') as HTMLFormElement
+      if (!formEl) return this.data
+      return collectFormData(formEl, this._schema)
+    }
+
+    // Validate the current data against the schema and show errors beneath each field
+    validate(): ValidationResult {
+      const errors = this.findErrors()
+      this.showErrors(errors)
+      return { valid: errors.length === 0, errors: groupErrors(errors) }
+    }
+
+    private findErrors(): ValidationError[] {
+      const resolver = createSchemaResolver(this._schema, this._refResolver)
+      const rootSchema = effectiveSchema(this._schema, resolver)
+      const data = this.getData()
+      // validate against the schema as written; the merged schema only decides the root path
+      return rootSchema.properties
+        ? validateData(data, this._schema, { resolver, requireNonEmpty: true })
+        : validateData(data?.data, this._schema, { resolver, path: 'data', requireNonEmpty: true })
+    }
+
+    // Validate the fields of the wizard's current step, showing their errors
+    private validateStep(): boolean {
+      const keys = this._steps[this._step]?.keys ?? []
+      const errors = this.findErrors().filter(error => keys.some(key => isWithinPath(error.path, key)))
+      this.showErrors(errors)
+      return errors.length === 0
+    }
+
+    // Validate the whole form and submit it, or else go to the first step with an error
+    private finishSteps(): void {
+      const { valid, errors } = this.validate()
+      if (valid) {
+        this.querySelector('form')?.dispatchEvent(new Event('submit', { cancelable: true }))
+        return
+      }
+      const index = this._steps.findIndex(step =>
+        Object.keys(errors).some(path => step.keys.some(key => isWithinPath(path, key)))
+      )
+      if (index >= 0 && index !== this._step) this.showStep(index)
+    }
+
+    private showStep(index: number): void {
+      const previous = this._step
+      // a step set before the first render is kept until there are steps to fit it to
+      this._step = Math.max(0, this._steps.length > 0 ? Math.min(index, this._steps.length - 1) : index)
+      this._reached = Math.max(this._reached, this._step)
+      this.hideOtherSteps()
+      this.renderStepControls()
+      if (this._step === previous) return
+      this.dispatchEvent(new CustomEvent('schema-step-change', {
+        bubbles: true,
+        detail: { step: this._step, previous, title: this._steps[this._step]?.title, data: this.getData() }
+      }))
+    }
+
+    // Hide the top-level fields that aren't in the wizard's current step
+    private hideOtherSteps(): void {
+      const formEl = this.querySelector('form') as HTMLFormElement | null
+      if (!formEl) return
+      this._steps.forEach((step, i) => {
+        for (const key of step.keys) {
+          findField(formEl, key)?.classList.toggle('schema-step-hidden', this._wizard && i !== this._step)
+        }
+      })
+    }
+
+    // The wizard's list of steps above the form and its Back / Next buttons below it
+    private renderStepControls(): void {
+      this.querySelectorAll(':scope > .schema-steps, :scope > .schema-step-nav').forEach(el => el.remove())
+      const formEl = this.querySelector('form')
+      const steps = this._steps
+      if (!this._wizard || !formEl || steps.length === 0) return
+      
+      const current = this._step
+      const progress = ol(
+        { class: 'schema-steps' },
+        ...steps.map((step, i) => {
+          const link = button({ type: 'button', class: 'schema-step-link', onClick: () => this.goToStep(i) }, step.title)
+          link.disabled = i > this._reached
+          const item = li({ class: i === current ? 'schema-step schema-step-current' : 'schema-step' }, link)
+          if (i === current) item.setAttribute('aria-current', 'step')
+          if (i < this._reached && i !== current) item.classList.add('schema-step-done')
+          return item
+        })
+      )
+      const back = button({ type: 'button', class: 'schema-step-back', onClick: () => this.previousStep() }, 'Back')
+      back.disabled = current === 0
+      const next = current < steps.length - 1
+        ? button({ type: 'button', class: 'schema-step-next', onClick: () => this.nextStep() }, 'Next')
+        : button({ type: 'button', class: 'schema-step-finish', onClick: () => this.finishSteps() }, 'Finish')
+      
+      formEl.before(progress)
+      formEl.after(div(
+        { class: 'schema-step-nav' },
+        back,
+        span({ class: 'schema-step-count' }, `Step ${current + 1} of ${steps.length}`),
+        next
+      ))
+    }
+
+    // Render validation errors inline, replacing any previously shown
+    showErrors(errors: ValidationError[]): void {
+      const formEl = this.querySelector('form') as HTMLFormElement
+      if (!formEl) return
+      clearErrors(formEl)
+      
+      for (const error of errors) {
+        const target = findPathElement(formEl, error.path) ?? formEl
+        const container = (target.closest('.schema-field, fieldset') as HTMLElement | null) ?? formEl
+        target.setAttribute('aria-invalid', 'true')
+        // errors inside collapsed sections are brought into view
+        for (let section = target.closest('[data-collapsed]'); section; section = section.parentElement!.closest('[data-collapsed]')) {
+          setCollapsed(section as HTMLElement, false)
+        }
+        container.classList.add('schema-invalid')
+        container.append(div({ class: 'schema-error', 'data-error-path': error.path }, error.message))
+      }
+    }
+
+    clearErrors(): void {
+      const formEl = this.querySelector('form') as HTMLFormElement
+      if (formEl) clearErrors(formEl)
+    }
+
+    // Collapse every object and array section
+    collapseAll(): void {
+      this.querySelectorAll('.schema-collapsible').forEach(field => setCollapsed(field as HTMLElement, true))
+    }
+
+    // Expand every section
+    expandAll(): void {
+      this.querySelectorAll('.schema-collapsible').forEach(field => setCollapsed(field as HTMLElement, false))
+      this._collapsed.clear()
     }
 
-    set data(d: any) {
-      this._data = d
-      this.queueRender()
+    // Expand the section at a data-path and those it's inside, so it can be seen
+    expandPath(path: string): void {
+      this.querySelectorAll('.schema-collapsible[data-collapsed]').forEach(field => {
+        const fieldPath = (field as HTMLElement).dataset.path || ''
+        if (isWithinPath(path, fieldPath)) setCollapsed(field as HTMLElement, false)
+      })
+      for (const collapsed of this._collapsed) {
+        if (isWithinPath(path, collapsed)) this._collapsed.delete(collapsed)
+      }
     }
 
-    getData(): any {
-      const formEl = this.querySelector('form') as HTMLFormElement
-      if (!formEl) return this.data
-      return collectFormData(formEl, this._schema)
+    // Collapse the section at a data-path (now, or once it's rendered)
+    collapsePath(path: string): void {
+      this._collapsed.add(path)
+      const field = this.querySelector(`.schema-collapsible[data-path="${attrValue(path)}"]`)
+      if (field) setCollapsed(field as HTMLElement, true)
+    }
+
+    // Is the section at a data-path collapsed?
+    isCollapsed(path: string): boolean {
+      const field = this.querySelector(`.schema-collapsible[data-path="${attrValue(path)}"]`)
+      return field ? field.hasAttribute('data-collapsed') : this._collapsed.has(path)
     }
 
     override render(): void {
-      this.textContent = ''
+      const rendered = this.querySelector('form') as HTMLFormElement | null
+      // a form from renderToString is adopted, along with what's been typed into it
+      const serverForm = rendered?.hasAttribute('data-ssr') ? rendered : null
+      const previous = serverForm ? null : rendered
+      // edits made in the form survive a schema change, but not newly assigned data
+      const data = previous && !this._dataReplaced ? this.currentData() : this._data
+      this._stale = false
+      this._dataReplaced = false
       
-      if (!this._schema.type && !this._schema.properties) {
+      const resolver = createSchemaResolver(this._schema, this._refResolver)
+      const { schema: rootSchema, conflicts } = mergeAllOf(resolver.resolve(this._schema) || {}, resolver)
+      
+      if (!rootSchema.type && !rootSchema.properties && !getUnionVariants(rootSchema)) {
+        // the server-rendered form is shown until there's a schema to render it with
+        if (serverForm) return
+        this.textContent = ''
         this.append(div({ class: 'schema-form-empty' }, 'No schema provided'))
         return
       }
+      this.checkDraft()
+
+      // a non-object root is rendered at the path 'data', so its uiSchema lives there too
+      // sections keep their collapsed state where they are now, if they've moved
+      previous?.querySelectorAll('.schema-collapsible').forEach(field => {
+        const path = (field as HTMLElement).dataset.path || ''
+        if (field.hasAttribute('data-collapsed')) this._collapsed.add(path)
+        else this._collapsed.delete(path)
+      })
+      const ctx: RenderContext = {
+        resolver,
+        refs: [],
+        uiSchema: rootSchema.properties ? this._uiSchema : { data: this._uiSchema },
+        collapsed: this._collapsed,
+        readOnly: this._readOnly,
+        disabled: this._disabled,
+      }
+      
+      if (this._mode === 'view') {
+        this.textContent = ''
+        this.append(div(
+          { class: 'schema-view' },
+          rootSchema.properties
+            ? renderViewObject(rootSchema, data ?? {}, '', ctx)
+            : renderViewValue(rootSchema, data, 'data', ctx)
+        ))
+        return
+      }
+      const refSources = { defs: [this._schema.$defs, this._schema.definitions], resolver: this._refResolver }
+      const refsChanged = !this._refSources ||
+        this._refSources.resolver !== refSources.resolver ||
+        !deepEqual(this._refSources.defs, refSources.defs)
+      this._refSources = refSources
 
-      const rootRequired = this._schema.required || []
+      this._rootPath = rootSchema.properties ? '' : 'data'
+      this._rootKeys = rootSchema.properties && !isMapSchema(rootSchema) ? new Set(declaredKeys(rootSchema)) : null
+      this._steps = rootSchema.properties ? getWizardSteps(rootSchema, resolver, this._uiSchema['ui:order']) : []
+      this._step = Math.max(0, Math.min(this._step, this._steps.length - 1))
+      this._reached = Math.max(0, Math.min(this._reached, this._steps.length - 1))
+      const children = [
+        ...renderConflicts(conflicts),
+        ...(rootSchema.properties
+          ? [
+              ...renderProperties(rootSchema, data, '', ctx),
+              ...(isMapSchema(rootSchema) ? [renderMapEntries(rootSchema, data, '', ctx)] : []),
+            ]
+          : [renderField('data', rootSchema, data, 'data', false, ctx)]),
+      ]
 
-      const fields = this._schema.properties
-        ? Object.entries(this._schema.properties).map(([key, propSchema]) =>
-            renderField(key, propSchema, this.data?.[key], key, rootRequired.includes(key))
-          )
-        : [renderField('data', this._schema, this.data, 'data', false)]
+      // Keep the fields of the previous render that would come out the same, so a schema
+      // change doesn't cost focus, caret position or scroll in the parts that didn't change
+      // (unless they've been locked or unlocked since)
+      const lock = this._disabled ? 'disabled' : this._readOnly ? 'readonly' : ''
+      const relocked = lock !== this._renderedLock
+      this._renderedLock = lock
+      const rebuild = this._rebuild
+      this._rebuild = false
+      if (previous && !relocked && !rebuild) {
+        reconcileChildren(previous, children.map(child => reuseFields(child, previous, refsChanged)))
+        const value = this.formValue()
+        this._formSnapshot = value
+        this.patchChanges(previous, data, diffData(value, data))
+        this.hideOtherSteps()
+        this.renderStepControls()
+        this.renderDraftOffer()
+        return
+      }
 
-      const formEl = form(
-        {
-          class: 'schema-form',
-          onInput: () => {
-            this.dispatchEvent(new CustomEvent('schema-input', {
-              bubbles: true,
-              detail: { data: this.getData() }
-            }))
-          },
-          onSubmit: (event: Event) => {
-            event.preventDefault()
-            this.dispatchEvent(new CustomEvent('schema-submit', {
-              bubbles: true,
-              detail: { data: this.getData() }
-            }))
-          }
-        },
-        ...fields
-      )
+      const built = form({ class: 'schema-form' }, ...children)
+      // fields are locked as they're rendered, but entries of a root map aren't fields
+      if (lock) lockField(built, this._disabled)
+      // the data the fields were rendered with, before what was typed into a server-rendered
+      // form is adopted along with it
+      const builtValue = serverForm ? collectFormData(built, this._schema) : undefined
+      const edited = serverForm ? adoptServerForm(serverForm, built) : []
+      const formEl = serverForm ?? built
+      
+      // Listen on the form itself rather than with onInput / onSubmit props. tosijs finds a
+      // delegated handler by looking up the element that the event target's closest() returns,
+      // and happy-dom's forms are proxies: closest() and parentElement give the form behind the
+      // proxy, so the lookup misses (and throws) and the handlers never run.
+      formEl.addEventListener('input', (event: Event) => {
+        // Editing a field dismisses its inline errors until the next validate()
+        const field = (event.target as HTMLElement).closest('.schema-field, fieldset')
+        if (field) clearErrors(field as HTMLElement, true)
+        
+        this.dispatchEvent(new CustomEvent('schema-input', {
+          bubbles: true,
+          detail: { data: this.getData() }
+        }))
+      })
+      for (const type of ['input', 'change', 'schema-structure']) {
+        formEl.addEventListener(type, (event: Event) => {
+          this.commitEdits((event as CustomEvent).detail?.changes, type === 'input' ? typingPath(event) : undefined)
+          // conditional fields may have just appeared
+          if (this._wizard) this.hideOtherSteps()
+        })
+      }
+      formEl.addEventListener('keydown', (event: KeyboardEvent) => {
+        if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z') return
+        if (this._readOnly || this._disabled) return
+        event.preventDefault()
+        if (event.shiftKey) this.redo()
+        else this.undo()
+      })
+      formEl.addEventListener('submit', (event: Event) => {
+        event.preventDefault()
+        this.discardDraft()
+        this.dispatchEvent(new CustomEvent('schema-submit', {
+          bubbles: true,
+          detail: { data: this.getData() }
+        }))
+      })
       
-      this.append(formEl)
+      if (formEl !== serverForm) {
+        this.textContent = ''
+        this.append(formEl)
+      }
+      this._formSnapshot = serverForm
+        ? (this._rootPath ? builtValue?.[this._rootPath] : builtValue)
+        : this.formValue()
+      this.hideOtherSteps()
+      this.renderStepControls()
+      this.renderDraftOffer()
+      // the form takes what was typed into the server-rendered form as edits
+      edited.forEach(control => control.dispatchEvent(new Event(
+        control.type === 'checkbox' || control.type === 'radio' || control.tagName === 'SELECT' ? 'change' : 'input',
+        { bubbles: true }
+      )))
     }
   }
 
@@ -835,6 +3255,25 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
       '.schema-field-boolean input[type="checkbox"]': {
         width: 'auto',
       },
+      '.schema-field-radio': {
+        border: 'none',
+        padding: '0',
+        margin: `0 0 ${vars.sfSpacing}`,
+      },
+      '.schema-field-radio legend': {
+        fontWeight: '500',
+        padding: '0',
+        marginBottom: vars.sfSpacing50,
+      },
+      '.schema-field-radio label': {
+        display: 'flex',
+        alignItems: 'center',
+        gap: vars.sfSpacing50,
+        fontWeight: 'normal',
+      },
+      '.schema-field-radio input[type="radio"]': {
+        width: 'auto',
+      },
       '.schema-range-container': {
         display: 'flex',
         alignItems: 'center',
@@ -858,6 +3297,11 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
         opacity: '0.7',
         marginBottom: vars.sfSpacing50,
       },
+      '.schema-help': {
+        fontSize: vars.sfFontSize85,
+        opacity: '0.7',
+        marginTop: vars.sfSpacing25,
+      },
       '.required': {
         color: vars.sfErrorColor,
       },
@@ -867,10 +3311,65 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
         padding: vars.sfSpacing,
         marginBottom: vars.sfSpacing,
       },
+      '.schema-section': {
+        border: `1px solid ${vars.sfBorderColor}`,
+        borderRadius: vars.sfSpacing50,
+        padding: vars.sfSpacing,
+        marginBottom: vars.sfSpacing,
+      },
+      'div.schema-section': {
+        border: 'none',
+        padding: '0',
+      },
+      '.schema-section legend': {
+        fontWeight: '600',
+        padding: `0 ${vars.sfSpacing50}`,
+      },
+      '.schema-row': {
+        display: 'grid',
+        gridAutoFlow: 'column',
+        gridAutoColumns: '1fr',
+        gap: vars.sfSpacing,
+      },
       '.schema-object legend, .schema-array legend': {
         fontWeight: '600',
         padding: `0 ${vars.sfSpacing50}`,
       },
+      '.schema-collapse': {
+        padding: '0',
+        marginRight: vars.sfSpacing50,
+        border: 'none',
+        background: 'transparent',
+        color: 'inherit',
+        cursor: 'pointer',
+        fontSize: 'inherit',
+        lineHeight: '1',
+      },
+      '.schema-collapse::before': {
+        content: '"▾"',
+        display: 'inline-block',
+        transition: 'transform 0.15s',
+      },
+      '.schema-collapsible[data-collapsed] > legend > .schema-collapse::before': {
+        transform: 'rotate(-90deg)',
+      },
+      '.schema-collapsible[data-collapsed] > :not(legend)': {
+        display: 'none',
+      },
+      '.schema-summary': {
+        marginLeft: vars.sfSpacing,
+        fontWeight: 'normal',
+        opacity: '0.7',
+      },
+      '.schema-summary:empty': {
+        display: 'none',
+      },
+      '.schema-tuple-items': {
+        display: 'grid',
+        gridAutoFlow: 'column',
+        gridAutoColumns: '1fr',
+        gap: vars.sfSpacing,
+      },
       '.schema-array-items': {
         display: 'flex',
         flexDirection: 'column',
@@ -900,6 +3399,40 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
       '.schema-array-remove:hover': {
         opacity: '0.8',
       },
+      '.schema-array-actions': {
+        position: 'absolute',
+        top: vars.sfSpacing250,
+        right: '0',
+        width: vars.sfSpacing200,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+      },
+      '.schema-array-reorder': {
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+      },
+      '.schema-array-drag': {
+        cursor: 'grab',
+        color: vars.sfBrandColor,
+        userSelect: 'none',
+      },
+      '.schema-array-duplicate, .schema-array-copy, .schema-array-move-up, .schema-array-move-down': {
+        padding: '0',
+        border: 'none',
+        background: 'transparent',
+        color: vars.sfBrandColor,
+        cursor: 'pointer',
+        fontSize: vars.sfFontSize,
+        lineHeight: '1',
+      },
+      '.schema-array-item:first-child > .schema-array-actions .schema-array-move-up, .schema-array-item:last-child > .schema-array-actions .schema-array-move-down': {
+        visibility: 'hidden',
+      },
+      '.schema-array-item[draggable="true"]': {
+        opacity: '0.5',
+      },
       '.schema-array-add': {
         marginTop: vars.sfSpacing50,
         padding: `${vars.sfSpacing50} ${vars.sfSpacing}`,
@@ -914,11 +3447,107 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
       '.schema-array-add:hover': {
         background: `${vars.sfBrandColor}10`,
       },
+      '.schema-map-entries': {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: vars.sfSpacing50,
+      },
+      '.schema-map-entry': {
+        display: 'grid',
+        gridTemplateColumns: `minmax(0, 1fr) minmax(0, 2fr) ${vars.sfSpacing200}`,
+        gap: vars.sfSpacing50,
+        alignItems: 'start',
+      },
+      '.schema-map-key': {
+        width: '100%',
+        padding: `${vars.sfSpacing75} ${vars.sfSpacing}`,
+        border: `1px solid ${vars.sfBorderColor}`,
+        borderRadius: vars.sfSpacing50,
+        fontSize: 'inherit',
+        fontFamily: 'inherit',
+        color: 'inherit',
+        background: vars.sfBackground,
+        boxSizing: 'border-box',
+      },
+      '.schema-map-entry.schema-invalid .schema-map-key': {
+        borderColor: vars.sfErrorColor,
+      },
+      '.schema-map-key-error': {
+        fontSize: vars.sfFontSize85,
+        color: vars.sfErrorColor,
+        marginTop: vars.sfSpacing25,
+      },
+      '.schema-map-key-error:empty': {
+        display: 'none',
+      },
+      '.schema-map-remove': {
+        width: vars.sfSpacing200,
+        height: vars.sfSpacing200,
+        padding: '0',
+        border: 'none',
+        background: vars.sfErrorColor,
+        color: vars.sfBackground,
+        borderRadius: '50%',
+        cursor: 'pointer',
+        fontSize: vars.sfFontSize,
+        lineHeight: '1',
+      },
       '.schema-array-add-controls': {
         display: 'flex',
         gap: vars.sfSpacing50,
         marginTop: vars.sfSpacing50,
       },
+      '.schema-array-add-controls .schema-array-add': {
+        marginTop: '0',
+      },
+      '.schema-array-paste': {
+        padding: `${vars.sfSpacing50} ${vars.sfSpacing}`,
+        border: `1px dashed ${vars.sfBorderColor}`,
+        background: 'transparent',
+        color: 'inherit',
+        borderRadius: vars.sfSpacing50,
+        cursor: 'pointer',
+        fontFamily: 'inherit',
+        fontSize: 'inherit',
+      },
+      '.schema-array-paste-error': {
+        fontSize: vars.sfFontSize85,
+        color: vars.sfErrorColor,
+        marginTop: vars.sfSpacing25,
+      },
+      '.schema-array-paste-error:empty': {
+        display: 'none',
+      },
+      '.schema-array-add:disabled, .schema-array-paste:disabled, .schema-array-remove:disabled, .schema-array-duplicate:disabled': {
+        opacity: '0.4',
+        cursor: 'not-allowed',
+      },
+      '.schema-array-limit, .schema-array-error': {
+        fontSize: vars.sfFontSize85,
+        marginTop: vars.sfSpacing25,
+      },
+      '.schema-array-limit': {
+        opacity: '0.7',
+      },
+      '.schema-array-error': {
+        color: vars.sfErrorColor,
+      },
+      '.schema-array-limit:empty, .schema-array-error:empty': {
+        display: 'none',
+      },
+      '.schema-array-item.schema-duplicate-item': {
+        borderLeftColor: vars.sfErrorColor,
+      },
+      // stands in for the array in constraint validation, so it's kept out of sight rather than hidden
+      '.schema-array-validity': {
+        position: 'absolute',
+        width: '1px',
+        height: '1px',
+        padding: '0',
+        border: '0',
+        opacity: '0',
+        pointerEvents: 'none',
+      },
       '.schema-array-variant-select': {
         flex: '1',
         padding: `${vars.sfSpacing50} ${vars.sfSpacing}`,
@@ -956,6 +3585,27 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
       '.schema-union-content': {
         paddingTop: vars.sfSpacing50,
       },
+      '.schema-nullable-content': {
+        border: 'none',
+        padding: '0',
+        margin: '0',
+        minWidth: '0',
+      },
+      '.schema-nullable-content[disabled]': {
+        opacity: '0.5',
+      },
+      '.schema-null-control': {
+        display: 'flex',
+        alignItems: 'center',
+        gap: vars.sfSpacing50,
+        fontSize: vars.sfFontSize85,
+        marginTop: `calc(-1 * ${vars.sfSpacing50})`,
+        marginBottom: vars.sfSpacing,
+      },
+      '.schema-null-value': {
+        fontStyle: 'italic',
+        opacity: '0.7',
+      },
       '.schema-field-const': {
         display: 'flex',
         flexDirection: 'column',
@@ -968,11 +3618,160 @@ export const schemaFormBlueprint: XinBlueprint<SchemaFormParts> = (
         color: vars.sfBrandColor,
         fontWeight: '500',
       },
+      '.schema-error': {
+        fontSize: vars.sfFontSize85,
+        color: vars.sfErrorColor,
+        marginTop: vars.sfSpacing25,
+      },
+      '.schema-conflict': {
+        fontSize: vars.sfFontSize85,
+        color: vars.sfErrorColor,
+        padding: `${vars.sfSpacing25} ${vars.sfSpacing50}`,
+        borderLeft: `2px solid ${vars.sfErrorColor}`,
+        marginBottom: vars.sfSpacing50,
+      },
+      '.schema-invalid > input, .schema-invalid > select, .schema-invalid > textarea': {
+        borderColor: vars.sfErrorColor,
+      },
       '.array-constraints': {
         fontSize: vars.sfFontSize85,
         opacity: '0.7',
         marginTop: vars.sfSpacing25,
       },
+      '.schema-readonly input, .schema-readonly select, .schema-readonly textarea': {
+        background: 'transparent',
+        borderStyle: 'dashed',
+      },
+      '.schema-readonly .schema-array-remove, .schema-readonly .schema-array-actions, .schema-readonly .schema-array-add-controls, .schema-readonly .schema-map-remove, .schema-readonly .schema-map-add': {
+        display: 'none',
+      },
+      '.schema-disabled': {
+        opacity: '0.6',
+      },
+      '.schema-disabled .schema-disabled': {
+        opacity: '1',
+      },
+      '.schema-view dl': {
+        display: 'grid',
+        gridTemplateColumns: 'minmax(8em, max-content) 1fr',
+        gap: `${vars.sfSpacing50} ${vars.sfSpacing}`,
+        margin: '0',
+      },
+      '.schema-view dt': {
+        fontWeight: '500',
+      },
+      '.schema-view dd': {
+        margin: '0',
+      },
+      '.schema-view ol': {
+        margin: '0',
+        paddingLeft: vars.sfSpacing150,
+      },
+      '.schema-view li + li': {
+        marginTop: vars.sfSpacing50,
+      },
+      '.schema-view-variant': {
+        display: 'block',
+        fontSize: vars.sfFontSize85,
+        color: vars.sfBrandColor,
+        marginBottom: vars.sfSpacing25,
+      },
+      '.schema-view-empty, .schema-view-masked': {
+        opacity: '0.7',
+      },
+      '.schema-step-hidden': {
+        display: 'none',
+      },
+      '.schema-steps': {
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: vars.sfSpacing50,
+        listStyle: 'none',
+        padding: '0',
+        margin: `0 0 ${vars.sfSpacing}`,
+        counterReset: 'schema-step',
+      },
+      '.schema-step': {
+        counterIncrement: 'schema-step',
+      },
+      '.schema-step-link': {
+        padding: `${vars.sfSpacing25} ${vars.sfSpacing75}`,
+        border: `1px solid ${vars.sfBorderColor}`,
+        borderRadius: vars.sfSpacing200,
+        background: vars.sfBackground,
+        color: 'inherit',
+        font: 'inherit',
+        cursor: 'pointer',
+      },
+      '.schema-step-link::before': {
+        content: 'counter(schema-step) ". "',
+      },
+      '.schema-step-link:disabled': {
+        cursor: 'default',
+        opacity: '0.5',
+      },
+      '.schema-step-done .schema-step-link': {
+        borderColor: vars.sfBrandColor,
+      },
+      '.schema-step-current .schema-step-link': {
+        background: vars.sfBrandColor,
+        borderColor: vars.sfBrandColor,
+        color: vars.sfBackground,
+      },
+      '.schema-step-nav': {
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: vars.sfSpacing,
+        marginTop: vars.sfSpacing,
+      },
+      '.schema-step-count': {
+        fontSize: vars.sfFontSize85,
+        opacity: '0.7',
+      },
+      '.schema-step-back, .schema-step-next, .schema-step-finish': {
+        padding: `${vars.sfSpacing50} ${vars.sfSpacing}`,
+        border: `1px solid ${vars.sfBrandColor}`,
+        borderRadius: vars.sfSpacing50,
+        background: vars.sfBackground,
+        color: vars.sfBrandColor,
+        font: 'inherit',
+        cursor: 'pointer',
+      },
+      '.schema-step-next, .schema-step-finish': {
+        background: vars.sfBrandColor,
+        color: vars.sfBackground,
+      },
+      '.schema-step-back:disabled': {
+        cursor: 'default',
+        opacity: '0.5',
+      },
+      '.schema-draft': {
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: vars.sfSpacing50,
+        padding: `${vars.sfSpacing50} ${vars.sfSpacing}`,
+        marginBottom: vars.sfSpacing,
+        borderLeft: `2px solid ${vars.sfBrandColor}`,
+        fontSize: vars.sfFontSize85,
+      },
+      '.schema-draft-message': {
+        flex: '1 1 auto',
+      },
+      '.schema-draft-restore, .schema-draft-discard': {
+        padding: `${vars.sfSpacing25} ${vars.sfSpacing75}`,
+        border: `1px solid ${vars.sfBrandColor}`,
+        borderRadius: vars.sfSpacing50,
+        background: vars.sfBackground,
+        color: vars.sfBrandColor,
+        font: 'inherit',
+        cursor: 'pointer',
+      },
+      '.schema-draft-restore': {
+        background: vars.sfBrandColor,
+        color: vars.sfBackground,
+      },
     },
   }
 }
@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'bun:test'
+import { applyChanges, applyJsonPatch, diffData, parsePointer, toJsonPatch } from './diff'
+
+describe('diffData', () => {
+  test('equal values have no changes', () => {
+    expect(diffData({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([])
+  })
+
+  test('reports replaced leaves with their previous values', () => {
+    expect(diffData({ name: 'Ada', age: 36 }, { name: 'Grace', age: 36 })).toEqual([
+      { op: 'replace', path: ['name'], value: 'Grace', previous: 'Ada' },
+    ])
+  })
+
+  test('reports added and removed keys', () => {
+    expect(diffData({ a: 1, b: 2 }, { b: 2, c: 3 })).toEqual([
+      { op: 'remove', path: ['a'], previous: 1 },
+      { op: 'add', path: ['c'], value: 3 },
+    ])
+  })
+
+  test('arrays grow and shrink at the tail', () => {
+    expect(diffData({ tags: ['a'] }, { tags: ['a', 'b', 'c'] })).toEqual([
+      { op: 'add', path: ['tags', 1], value: 'b' },
+      { op: 'add', path: ['tags', 2], value: 'c' },
+    ])
+    expect(diffData(['a', 'b', 'c'], ['x'])).toEqual([
+      { op: 'replace', path: [0], value: 'x', previous: 'a' },
+      { op: 'remove', path: [2], previous: 'c' },
+      { op: 'remove', path: [1], previous: 'b' },
+    ])
+  })
+
+  test('a change of type replaces the whole value', () => {
+    expect(diffData({ a: { b: 1 } }, { a: [1] })).toEqual([
+      { op: 'replace', path: ['a'], value: [1], previous: { b: 1 } },
+    ])
+  })
+})
+
+describe('applyChanges', () => {
+  test('turns the before value into the after value', () => {
+    const before = { name: 'Ada', tags: ['a', 'b', 'c'], extra: { x: 1 } }
+    const after = { name: 'Grace', tags: ['a'], address: { city: 'London' } }
+    const target: any = structuredClone(before)
+    applyChanges(target, diffData(before, after))
+    expect(target).toEqual(after)
+  })
+
+  test('creates missing containers along the path', () => {
+    const target: any = {}
+    applyChanges(target, [{ op: 'add', path: ['items', 0, 'name'], value: 'x' }])
+    expect(target).toEqual({ items: [{ name: 'x' }] })
+  })
+
+  test('moves a value out of one place and into another', () => {
+    const target: any = { items: ['a', 'b', 'c'] }
+    applyChanges(target, [{ op: 'move', from: ['items', 2], path: ['items', 0] }])
+    expect(target).toEqual({ items: ['c', 'a', 'b'] })
+  })
+})
+
+describe('toJsonPatch', () => {
+  test('formats paths as JSON Pointers and keeps previous values', () => {
+    expect(toJsonPatch(diffData({ 'a/b': 1, items: ['x', 'y'] }, { 'a/b': 2, items: ['x'], 'c~': true }))).toEqual([
+      { op: 'replace', path: '/a~1b', value: 2, previous: 1 },
+      { op: 'remove', path: '/items/1', previous: 'y' },
+      { op: 'add', path: '/c~0', value: true },
+    ])
+  })
+})
+
+describe('applyJsonPatch', () => {
+  test('reads pointer segments as indices only inside arrays', () => {
+    expect(parsePointer('/items/0/a~1b', { items: [{}] })).toEqual(['items', 0, 'a/b'])
+    expect(parsePointer('/map/0', { map: {} })).toEqual(['map', '0'])
+    expect(parsePointer('/items/-', { items: [1, 2] })).toEqual(['items', 2])
+  })
+
+  test('applies operations in order and reports them as changes', () => {
+    const { data, changes } = applyJsonPatch({ items: ['a', 'b'], name: 'x' }, [
+      { op: 'add', path: '/items/0', value: 'z' },
+      { op: 'replace', path: '/name', value: 'y' },
+      { op: 'move', from: '/items/2', path: '/items/0' },
+      { op: 'copy', from: '/name', path: '/alias' },
+    ])
+    expect(data).toEqual({ items: ['b', 'z', 'a'], name: 'y', alias: 'y' })
+    expect(changes).toEqual([
+      { op: 'add', path: ['items', 0], value: 'z' },
+      { op: 'replace', path: ['name'], value: 'y', previous: 'x' },
+      { op: 'move', from: ['items', 2], path: ['items', 0] },
+      { op: 'add', path: ['alias'], value: 'y' },
+    ])
+  })
+
+  test('skips replacing, removing, moving or copying what is not there', () => {
+    const { data, changes } = applyJsonPatch({ items: ['a'], name: 'x' }, [
+      { op: 'replace', path: '/nonexistent/deep', value: 1 },
+      { op: 'replace', path: '/missing', value: 1 },
+      { op: 'remove', path: '/items/3' },
+      { op: 'remove', path: '/nonexistent/deep' },
+      { op: 'move', from: '/gone', path: '/name' },
+      { op: 'copy', from: '/gone', path: '/alias' },
+    ])
+    expect(data).toEqual({ items: ['a'], name: 'x' })
+    expect(changes).toEqual([])
+  })
+
+  test('replacing the root returns the new value', () => {
+    expect(applyJsonPatch({ a: 1 }, [{ op: 'replace', path: '', value: [1] }]).data).toEqual([1])
+  })
+})
@@ -0,0 +1,214 @@
+// Data Diffs
+// Compare two JSON values as add / remove / replace (and move) operations, and apply them
+
+import { deepEqual } from './validate'
+
+export interface DataChange {
+  op: 'add' | 'remove' | 'replace' | 'move'
+  // property keys and array indices from the root of the data
+  path: Array<string | number>
+  // where a move takes its value from (`path` is where it goes once removed from there)
+  from?: Array<string | number>
+  value?: any
+  previous?: any
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * List the changes that turn `before` into `after`
+ *
+ * Objects and arrays are compared member by member; arrays that grow or shrink get
+ * `add`s / `remove`s at their tail (removes last-first, so they apply in order).
+ *
+ * @example
+ * diffData({ tags: ['a'] }, { tags: ['a', 'b'], name: 'x' })
+ * // [{ op: 'add', path: ['tags', 1], value: 'b' }, { op: 'add', path: ['name'], value: 'x' }]
+ */
+export const diffData = (before: any, after: any, path: Array<string | number> = []): DataChange[] => {
+  if (deepEqual(before, after)) return []
+  if (before === undefined) return [{ op: 'add', path, value: after }]
+  if (after === undefined) return [{ op: 'remove', path, previous: before }]
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: DataChange[] = []
+    const common = Math.min(before.length, after.length)
+    for (let i = 0; i < common; i++) changes.push(...diffData(before[i], after[i], [...path, i]))
+    for (let i = common; i < after.length; i++) changes.push({ op: 'add', path: [...path, i], value: after[i] })
+    for (let i = before.length - 1; i >= common; i--) {
+      changes.push({ op: 'remove', path: [...path, i], previous: before[i] })
+    }
+    return changes
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: DataChange[] = []
+    for (const key of Object.keys(before)) {
+      if (after[key] === undefined && before[key] !== undefined) {
+        changes.push({ op: 'remove', path: [...path, key], previous: before[key] })
+      }
+    }
+    for (const key of Object.keys(after)) {
+      // keys that are now undefined were removed above
+      if (after[key] === undefined) continue
+      changes.push(...diffData(before[key], after[key], [...path, key]))
+    }
+    return changes
+  }
+
+  return [{ op: 'replace', path, value: after, previous: before }]
+}
+
+const valueAt = (data: any, path: Array<string | number>): any =>
+  path.reduce((current, part) => current?.[part], data)
+
+// Whether there's a value at a path (which replace, remove, move and copy need)
+const exists = (data: any, path: Array<string | number>): boolean => {
+  if (path.length === 0) return data !== undefined
+  const parent = valueAt(data, path.slice(0, -1))
+  const last = path[path.length - 1]!
+  if (Array.isArray(parent)) return typeof last === 'number' && last >= 0 && last < parent.length
+  return parent !== null && typeof parent === 'object' && Object.hasOwn(parent, last)
+}
+
+// Apply one change, creating missing containers along the path for an add (only)
+const applyChange = (target: any, change: DataChange): void => {
+  let parent = target
+  for (let i = 0; i < change.path.length - 1; i++) {
+    const part = change.path[i]!
+    if (parent[part] === null || typeof parent[part] !== 'object') {
+      if (change.op !== 'add') return
+      parent[part] = typeof change.path[i + 1] === 'number' ? [] : {}
+    }
+    parent = parent[part]
+  }
+  const last = change.path[change.path.length - 1]!
+  if (change.op === 'remove') {
+    if (Array.isArray(parent) && typeof last === 'number') parent.splice(last, 1)
+    else delete parent[last]
+  } else if (change.op === 'add' && Array.isArray(parent) && typeof last === 'number') {
+    parent.splice(last, 0, change.value)
+  } else {
+    parent[last] = change.value
+  }
+}
+
+/**
+ * Apply changes in place to an object or array (or a tosijs proxy of one, so that
+ * each change notifies observers of its own path). Changes to the root itself
+ * (an empty path) can't be applied in place and are ignored.
+ */
+export const applyChanges = (target: any, changes: DataChange[]): void => {
+  for (const change of changes) {
+    if (change.path.length === 0) continue
+    if (change.op === 'move') {
+      if (!change.from || change.from.length === 0) continue
+      const value = valueAt(target, change.from)
+      applyChange(target, { op: 'remove', path: change.from })
+      applyChange(target, { op: 'add', path: change.path, value })
+    } else {
+      applyChange(target, change)
+    }
+  }
+}
+
+/**
+ * An RFC 6902 JSON Patch operation. `previous` (not part of the RFC, which allows extra
+ * members) carries the value that was replaced or removed.
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy'
+  path: string
+  // the source of a move or copy
+  from?: string
+  value?: any
+  previous?: any
+}
+
+// Format path parts as an RFC 6901 JSON Pointer, e.g. ['items', 0, 'a/b'] => '/items/0/a~1b'
+export const toPointer = (parts: Array<string | number>): string =>
+  parts.map(part => '/' + String(part).replace(/~/g, '~0').replace(/\//g, '~1')).join('')
+
+/**
+ * Express changes as JSON Patch operations
+ *
+ * @example
+ * toJsonPatch(diffData({ customer: { email: 'a@b.c' } }, { customer: { email: 'x@y.z' } }))
+ * // [{ op: 'replace', path: '/customer/email', value: 'x@y.z', previous: 'a@b.c' }]
+ */
+export const toJsonPatch = (changes: DataChange[]): JsonPatchOperation[] =>
+  changes.map(({ op, path, from, value, previous }) => {
+    if (op === 'move') return { op, from: toPointer(from || []), path: toPointer(path) }
+    const operation: JsonPatchOperation = { op, path: toPointer(path) }
+    if (op !== 'remove') operation.value = value
+    if (op !== 'add') operation.previous = previous
+    return operation
+  })
+
+// Split a JSON Pointer into path parts, reading segments as indices where `data` has arrays
+// ('-' being the index just past the end)
+export const parsePointer = (pointer: string, data?: any): Array<string | number> => {
+  if (pointer === '') return []
+  const parts: Array<string | number> = []
+  let current = data
+  for (const segment of pointer.slice(1).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    const part = Array.isArray(current) ? (key === '-' ? current.length : Number(key)) : key
+    parts.push(part)
+    current = current?.[part]
+  }
+  return parts
+}
+
+/**
+ * Apply JSON Patch operations to `data` (in place, where possible), returning the patched
+ * data and the changes made. Each operation is resolved against the data as patched so far;
+ * `copy` becomes an add, and operations without a usable path, those that replace, remove,
+ * move or copy a value that isn't there (or `test`, which isn't supported) are skipped.
+ *
+ * @example
+ * applyJsonPatch({ items: ['a'] }, [{ op: 'add', path: '/items/-', value: 'b' }])
+ * // { data: { items: ['a', 'b'] }, changes: [{ op: 'add', path: ['items', 1], value: 'b' }] }
+ */
+export const applyJsonPatch = (
+  data: any,
+  patch: JsonPatchOperation[]
+): { data: any, changes: DataChange[] } => {
+  const changes: DataChange[] = []
+  const unusable = (path: Array<string | number>) => path.some(part => typeof part === 'number' && Number.isNaN(part))
+  const apply = (change: DataChange) => {
+    if (unusable(change.path)) return
+    if (change.op === 'replace' || change.op === 'remove') {
+      if (!exists(data, change.path)) return
+      change.previous = valueAt(data, change.path)
+    }
+    if (change.path.length === 0) data = change.op === 'remove' ? undefined : change.value
+    else applyChanges(data, [change])
+    changes.push(change)
+  }
+  
+  for (const operation of patch) {
+    if (operation.op === 'move' && operation.from !== undefined) {
+      // the destination is read once the value has left its source
+      const from = parsePointer(operation.from, data)
+      if (from.length === 0 || unusable(from) || !exists(data, from)) continue
+      const value = valueAt(data, from)
+      applyChanges(data, [{ op: 'remove', path: from }])
+      const path = parsePointer(operation.path, data)
+      const moved = path.length > 0 && !unusable(path)
+      applyChanges(data, [{ op: 'add', path: moved ? path : from, value }])
+      if (moved) changes.push({ op: 'move', from, path })
+    } else if (operation.op === 'copy' && operation.from !== undefined) {
+      const from = parsePointer(operation.from, data)
+      if (unusable(from) || !exists(data, from)) continue
+      const value = structuredClone(valueAt(data, from))
+      apply({ op: 'add', path: parsePointer(operation.path, data), value })
+    } else if (operation.op === 'add' || operation.op === 'remove' || operation.op === 'replace') {
+      const change: DataChange = { op: operation.op, path: parsePointer(operation.path, data) }
+      if (operation.op !== 'remove') change.value = structuredClone(operation.value)
+      apply(change)
+    }
+  }
+  return { data, changes }
+}
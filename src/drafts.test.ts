@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'bun:test'
+import 'fake-indexeddb/auto'
+import { indexedDbDrafts, localStorageDrafts, schemaFingerprint } from './drafts'
+
+describe('schemaFingerprint', () => {
+  test('ignores annotations and key order', () => {
+    const schema = { type: 'object', properties: { name: { type: 'string' }, age: { type: 'integer' } } }
+    expect(schemaFingerprint(schema)).toMatch(/^[0-9a-f]{8}$/)
+    expect(schemaFingerprint({
+      properties: { age: { type: 'integer', title: 'Age' }, name: { type: 'string', 'x-widget': 'text' } },
+      type: 'object',
+      description: 'A person',
+    })).toBe(schemaFingerprint(schema))
+  })
+
+  test('changes with what data fits', () => {
+    const schema = { type: 'object', properties: { name: { type: 'string' } } }
+    const fingerprint = schemaFingerprint(schema)
+    expect(schemaFingerprint({ ...schema, required: ['name'] })).not.toBe(fingerprint)
+    expect(schemaFingerprint({ type: 'object', properties: { name: { type: 'number' } } })).not.toBe(fingerprint)
+    expect(schemaFingerprint({ type: 'object', properties: { fullName: { type: 'string' } } })).not.toBe(fingerprint)
+  })
+
+  test('keeps properties and values that are named like annotations', () => {
+    const schema = { type: 'object', properties: { name: { type: 'string' } } }
+    const fingerprint = schemaFingerprint(schema)
+    expect(schemaFingerprint({ ...schema, properties: { ...schema.properties, title: { type: 'string' } } })).not.toBe(fingerprint)
+    expect(schemaFingerprint({ ...schema, patternProperties: { '^x-': { type: 'string' } } })).not.toBe(fingerprint)
+    expect(schemaFingerprint({ ...schema, $defs: { description: { type: 'string' } } })).not.toBe(fingerprint)
+    expect(schemaFingerprint({ enum: [{ title: 'a' }] })).not.toBe(schemaFingerprint({ enum: [{}] }))
+    expect(schemaFingerprint({ const: { default: 1 } })).not.toBe(schemaFingerprint({ const: {} }))
+    expect(schemaFingerprint({ type: 'array', items: { type: 'string', title: 'Tag' } }))
+      .toBe(schemaFingerprint({ type: 'array', items: { type: 'string' } }))
+  })
+})
+
+describe('localStorageDrafts', () => {
+  test('saves, loads and removes drafts under a prefix', async () => {
+    const storage = localStorageDrafts(sessionStorage, 'test:')
+    const draft = { data: { name: 'Ada' }, fingerprint: 'abcd1234', savedAt: 1 }
+    await storage.save('profile', draft)
+    expect(JSON.parse(sessionStorage.getItem('test:profile')!)).toEqual(draft)
+    expect(await storage.load('profile')).toEqual(draft)
+
+    await storage.remove('profile')
+    expect(await storage.load('profile')).toBeUndefined()
+
+    sessionStorage.setItem('test:broken', '{')
+    expect(await storage.load('broken')).toBeUndefined()
+    sessionStorage.clear()
+  })
+})
+
+describe('indexedDbDrafts', () => {
+  test('saves, loads and removes drafts in an object store', async () => {
+    const storage = indexedDbDrafts('test-drafts', 'test-store')
+    const draft = { data: { name: 'Ada', tags: ['x'] }, fingerprint: 'abcd1234', savedAt: 1 }
+    expect(await storage.load('profile')).toBeUndefined()
+    await storage.save('profile', draft)
+    expect(await storage.load('profile')).toEqual(draft)
+
+    // a second adapter opens the same database
+    expect(await indexedDbDrafts('test-drafts', 'test-store').load('profile')).toEqual(draft)
+
+    await storage.remove('profile')
+    expect(await storage.load('profile')).toBeUndefined()
+  })
+})
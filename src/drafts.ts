@@ -0,0 +1,144 @@
+// Drafts
+// Autosaved copies of a form's data, kept in pluggable storage so work survives a closed tab
+
+import type { JSONSchema } from './blueprint'
+
+export interface Draft {
+  data: any
+  // schemaFingerprint() of the schema the draft was saved with
+  fingerprint: string
+  // when it was saved, in ms since the epoch
+  savedAt: number
+}
+
+// Where drafts are kept. Failures are ignored: a draft that can't be saved is just lost.
+export interface DraftStorage {
+  load(key: string): Promise<Draft | undefined>
+  save(key: string, draft: Draft): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+export interface AutosaveOptions {
+  // what the draft is saved under
+  key: string
+  // where it's saved (localStorage by default)
+  storage?: DraftStorage
+  // how long after the last edit to save, in ms (1000 by default)
+  delay?: number
+  // turn a draft saved with another version of the schema into data for this one,
+  // or return undefined to discard it (as happens without a migrate function)
+  migrate?: (draft: Draft) => any
+}
+
+// Keywords that don't affect what data fits a schema, so changing them keeps its drafts
+const annotations = new Set(['title', 'description', 'default', 'examples', '$comment'])
+
+// Keywords whose value is a schema, or a list of them
+const schemaKeywords = new Set([
+  'items', 'prefixItems', 'additionalItems', 'contains', 'additionalProperties', 'propertyNames',
+  'unevaluatedItems', 'unevaluatedProperties', 'not', 'if', 'then', 'else', 'anyOf', 'oneOf', 'allOf',
+])
+
+// Keywords whose value maps names (which are data, not keywords) to schemas
+const schemaMapKeywords = new Set(['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas', 'dependencies'])
+
+// JSON with object keys sorted
+const canonicalJson = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null'
+  return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`
+}
+
+const canonicalMap = (value: any): string => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return canonicalJson(value)
+  return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalSchema(value[key])}`).join(',')}}`
+}
+
+// A schema's canonical JSON, with annotations (and x- extensions) left out of it and the
+// schemas inside it, but not out of values such as enum, const or property names
+const canonicalSchema = (schema: any): string => {
+  if (Array.isArray(schema)) return `[${schema.map(canonicalSchema).join(',')}]`
+  if (schema === null || typeof schema !== 'object') return canonicalJson(schema)
+  const keys = Object.keys(schema)
+    .filter(key => !annotations.has(key) && !key.startsWith('x-'))
+    .sort()
+  return `{${keys.map(key => {
+    const value = schemaKeywords.has(key) ? canonicalSchema(schema[key])
+      : schemaMapKeywords.has(key) ? canonicalMap(schema[key])
+      : canonicalJson(schema[key])
+    return `${JSON.stringify(key)}:${value}`
+  }).join(',')}}`
+}
+
+/**
+ * A short hash of the parts of a schema that decide what data fits it. Titles,
+ * descriptions, defaults and `x-` extensions are left out, so editing them doesn't
+ * orphan drafts saved before.
+ *
+ * @example
+ * schemaFingerprint({ type: 'string', title: 'Name' }) === schemaFingerprint({ type: 'string' }) // true
+ */
+export const schemaFingerprint = (schema: JSONSchema): string => {
+  // 32-bit FNV-1a
+  const text = canonicalSchema(schema)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Keep drafts in localStorage (or another Web Storage, such as sessionStorage), as JSON
+ * under the key with a prefix
+ *
+ * @example
+ * form.autosave = { key: 'new-order', storage: localStorageDrafts(sessionStorage) }
+ */
+export const localStorageDrafts = (storage?: Storage, prefix = 'tosi-schema-form:'): DraftStorage => {
+  const store = () => storage ?? globalThis.localStorage
+  return {
+    async load(key) {
+      try {
+        const draft = JSON.parse(store().getItem(prefix + key) ?? 'null')
+        return draft && typeof draft === 'object' && typeof draft.fingerprint === 'string' ? draft : undefined
+      } catch {
+        return undefined
+      }
+    },
+    async save(key, draft) {
+      store().setItem(prefix + key, JSON.stringify(draft))
+    },
+    async remove(key) {
+      store().removeItem(prefix + key)
+    },
+  }
+}
+
+/**
+ * Keep drafts in an IndexedDB object store, for data too large for localStorage
+ *
+ * @example
+ * form.autosave = { key: 'new-order', storage: indexedDbDrafts() }
+ */
+export const indexedDbDrafts = (databaseName = 'tosi-schema-form', storeName = 'drafts'): DraftStorage => {
+  let database: Promise<IDBDatabase> | undefined
+  const open = () => database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    open().then(db => new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }))
+  return {
+    load: key => run<Draft | undefined>('readonly', store => store.get(key)).then(draft => draft ?? undefined),
+    save: (key, draft) => run('readwrite', store => store.put(draft, key)).then(() => undefined),
+    remove: key => run('readwrite', store => store.delete(key)).then(() => undefined),
+  }
+}
@@ -1,7 +1,7 @@
-import type { JSONSchema } from './schema-form'
+import type { JSONSchema, FromSchema } from './schema-form'
 
 // Simple: Contact form
-export const contactSchema: JSONSchema = {
+export const contactSchema = {
   type: 'object',
   title: 'Contact Form',
   required: ['name', 'email', 'message'],
@@ -40,10 +40,10 @@ export const contactSchema: JSONSchema = {
       default: false
     }
   }
-}
+} as const satisfies JSONSchema
 
 // Moderate: Blog post with author and tags
-export const blogPostSchema: JSONSchema = {
+export const blogPostSchema = {
   type: 'object',
   title: 'Blog Post',
   required: ['title', 'content', 'author', 'status'],
@@ -130,10 +130,10 @@ export const blogPostSchema: JSONSchema = {
       default: true
     }
   }
-}
+} as const satisfies JSONSchema
 
 // Nasty: E-commerce order with nested products, variants, shipping, and payment
-export const orderSchema: JSONSchema = {
+export const orderSchema = {
   type: 'object',
   title: 'Order',
   description: 'E-commerce order with full complexity',
@@ -184,20 +184,36 @@ export const orderSchema: JSONSchema = {
           type: 'string',
           title: 'Phone'
         },
-        company: {
+        customerType: {
           type: 'string',
-          title: 'Company',
-          description: 'Optional company name for B2B orders'
-        },
-        taxId: {
-          type: 'string',
-          title: 'Tax ID / VAT Number'
+          title: 'Customer Type',
+          enum: ['personal', 'business'],
+          default: 'personal'
         },
         notes: {
           type: 'string',
           title: 'Customer Notes',
           maxLength: 1000
         }
+      },
+      // Company details only apply to (and are required for) business customers
+      if: {
+        properties: { customerType: { const: 'business' } },
+        required: ['customerType']
+      },
+      then: {
+        properties: {
+          company: {
+            type: 'string',
+            title: 'Company',
+            minLength: 1
+          },
+          taxId: {
+            type: 'string',
+            title: 'Tax ID / VAT Number'
+          }
+        },
+        required: ['company', 'taxId']
       }
     },
     items: {
@@ -208,6 +224,7 @@ export const orderSchema: JSONSchema = {
       items: {
         type: 'object',
         title: 'Line Item',
+        'x-summary': '{{productName}} × {{quantity}}',
         required: ['productName', 'sku', 'quantity', 'unitPrice'],
         properties: {
           productName: {
@@ -480,10 +497,10 @@ export const orderSchema: JSONSchema = {
       }
     }
   }
-}
+} as const satisfies JSONSchema
 
 // Content Builder - showcases union types with array variant picker
-export const contentBuilderSchema: JSONSchema = {
+export const contentBuilderSchema = {
   type: 'object',
   title: 'Content Builder',
   description: 'Build a page with mixed content blocks',
@@ -627,7 +644,7 @@ export const contentBuilderSchema: JSONSchema = {
       }
     }
   }
-}
+} as const satisfies JSONSchema
 
 export const contentBuilderSampleData = {
   title: 'Getting Started Guide',
@@ -665,7 +682,7 @@ export const contentBuilderSampleData = {
       height: 400
     }
   }
-}
+} satisfies FromSchema<typeof contentBuilderSchema>
 
 // Sample data for each schema
 export const contactSampleData = {
@@ -675,7 +692,7 @@ export const contactSampleData = {
   subject: 'Support',
   message: 'I need help with my recent order. The tracking number shows delivered but I haven\'t received it.',
   subscribe: true
-}
+} satisfies FromSchema<typeof contactSchema>
 
 export const blogPostSampleData = {
   title: 'Getting Started with Web Components',
@@ -693,7 +710,7 @@ export const blogPostSampleData = {
   tags: ['javascript', 'web-components', 'tutorial'],
   featured: false,
   allowComments: true
-}
+} satisfies FromSchema<typeof blogPostSchema>
 
 export const orderSampleData = {
   orderNumber: 'ORD-20250116',
@@ -704,6 +721,7 @@ export const orderSampleData = {
     lastName: 'Brown',
     email: 'michael.brown@example.com',
     phone: '+1 555-9876',
+    customerType: 'business',
     company: 'Brown Industries',
     taxId: 'US123456789',
     notes: 'Preferred customer - handle with care'
@@ -781,4 +799,4 @@ export const orderSampleData = {
     marketingConsent: true,
     internalNotes: 'VIP customer - prioritize fulfillment'
   }
-}
+} satisfies FromSchema<typeof orderSchema>
@@ -0,0 +1,93 @@
+import { describe, test, expect, expectTypeOf, beforeAll } from 'bun:test'
+import { schemaForm, typedForm, type FromSchema } from './schema-form'
+import {
+  orderSchema,
+  orderSampleData,
+  contentBuilderSchema,
+  contentBuilderSampleData,
+  contactSchema,
+  contactSampleData,
+  blogPostSchema,
+  blogPostSampleData,
+} from './example-schemas'
+
+// Wait for queueRender to flush
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+type Order = FromSchema<typeof orderSchema>
+type Page = FromSchema<typeof contentBuilderSchema>
+
+// The type assertions are checked by tsc; the sample data is also declared
+// `satisfies FromSchema<typeof schema>` in example-schemas.ts
+describe('FromSchema', () => {
+  test('the sample data fits the types inferred from its schema', () => {
+    expectTypeOf(orderSampleData).toMatchTypeOf<Order>()
+    expectTypeOf(contentBuilderSampleData).toMatchTypeOf<Page>()
+    expectTypeOf(contactSampleData).toMatchTypeOf<FromSchema<typeof contactSchema>>()
+    expectTypeOf(blogPostSampleData).toMatchTypeOf<FromSchema<typeof blogPostSchema>>()
+  })
+
+  test('required properties, optional properties and conditional properties', () => {
+    expectTypeOf<Order['customer']>().toEqualTypeOf<{
+      firstName: string
+      lastName: string
+      email: string
+      phone?: string
+      customerType?: 'personal' | 'business'
+      notes?: string
+      company?: string
+      taxId?: string
+    }>()
+    expectTypeOf<Order['items'][number]['quantity']>().toEqualTypeOf<number>()
+    expectTypeOf<Order['orderNumber']>().toEqualTypeOf<string | undefined>()
+  })
+
+  test('enums, consts and unions', () => {
+    expectTypeOf<Order['status']>().toEqualTypeOf<
+      'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded' | undefined
+    >()
+    expectTypeOf<Order['priority']>().toEqualTypeOf<'low' | 'normal' | 'high' | 'urgent' | undefined>()
+    expectTypeOf<NonNullable<Page['blocks']>[number]['blockType']>()
+      .toEqualTypeOf<'text' | 'image' | 'video' | 'code' | 'quote' | undefined>()
+  })
+
+  test('nullable, multi-type, tuple and map schemas', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        nickname: { type: ['string', 'null'] },
+        point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }] },
+        scores: { type: 'object', additionalProperties: { type: 'integer' } },
+        anything: {},
+      },
+      required: ['nickname', 'point', 'scores', 'anything'],
+    } as const
+    expectTypeOf<FromSchema<typeof schema>>().toEqualTypeOf<{
+      nickname: string | null
+      point: [number, number]
+      scores: Record<string, number>
+      anything: unknown
+    }>()
+  })
+})
+
+describe('typedForm', () => {
+  beforeAll(async () => {
+    await schemaForm
+  })
+
+  test('sets the schema and returns the same element', async () => {
+    const el = document.createElement('tosi-schema-form')
+    document.body.appendChild(el)
+    const form = typedForm(el, orderSchema)
+    form.data = orderSampleData
+    await nextTick()
+
+    expect(form).toBe(el as any)
+    expect(form.schema).toBe(orderSchema)
+    expectTypeOf(form.getData()).toEqualTypeOf<Order>()
+    expect(form.getData().customer.email).toBe('michael.brown@example.com')
+
+    el.remove()
+  })
+})
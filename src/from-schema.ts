@@ -0,0 +1,94 @@
+// Static Types from Schemas
+// The TypeScript type of the data a schema describes, for schemas declared `as const`
+
+import type { JSONSchema, ValidationResult } from './blueprint'
+
+// Flatten intersections, so inferred types read as plain object types
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never
+
+// Properties that only a then / else branch declares
+type BranchProperties<S> =
+  (S extends { then: { properties: infer P } } ? P : {}) &
+  (S extends { else: { properties: infer P } } ? P : {})
+
+type FromObject<S> = S extends { properties: infer P }
+  ? Simplify<
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } &
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]> } &
+      { -readonly [K in Exclude<keyof BranchProperties<S>, keyof P>]?: FromSchema<BranchProperties<S>[K]> }
+    >
+  : S extends { additionalProperties: infer A extends object }
+    ? Record<string, FromSchema<A>>
+    : Record<string, unknown>
+
+// Positional (tuple) schemas
+type FromTuple<P> = { -readonly [K in keyof P]: FromSchema<P[K]> }
+
+type FromArray<S> = S extends { prefixItems: infer P extends readonly unknown[] }
+  ? FromTuple<P>
+  : S extends { items: infer I }
+    ? I extends readonly unknown[] ? FromTuple<I> : FromSchema<I>[]
+    : unknown[]
+
+// One member of a type keyword (distributed over a list of them)
+type FromType<S, T> =
+  T extends 'string' ? string
+  : T extends 'number' | 'integer' ? number
+  : T extends 'boolean' ? boolean
+  : T extends 'null' ? null
+  : T extends 'array' ? FromArray<S>
+  : T extends 'object' ? FromObject<S>
+  : never
+
+type FromVariants<V> = V extends unknown ? FromSchema<V> : never
+
+/**
+ * The type of the data a schema describes. The schema must be declared `as const`, so
+ * its literals survive; a schema typed as plain `JSONSchema` gives `unknown`.
+ *
+ * Covers `type` (including lists, so `['string', 'null']` is nullable), `properties`
+ * with `required` (other properties, and those of `then` / `else`, are optional),
+ * `additionalProperties`, `items` and `prefixItems`, `enum`, `const`, and `anyOf` /
+ * `oneOf` unions.
+ *
+ * @example
+ * const schema = {
+ *   type: 'object',
+ *   properties: { name: { type: 'string' }, size: { enum: ['S', 'M'] } },
+ *   required: ['name']
+ * } as const
+ * type Shirt = FromSchema<typeof schema> // { name: string; size?: 'S' | 'M' }
+ */
+export type FromSchema<S> =
+  S extends { const: infer C } ? C
+  : S extends { enum: readonly (infer E)[] } ? E
+  : S extends { anyOf: readonly (infer V)[] } ? FromVariants<V>
+  : S extends { oneOf: readonly (infer V)[] } ? FromVariants<V>
+  : S extends { type: readonly (infer T)[] } ? FromType<S, T>
+  : S extends { type: infer T } ? FromType<S, T>
+  : S extends { properties: object } ? FromObject<S>
+  : unknown
+
+// A <tosi-schema-form> whose data is typed by its schema
+export interface TypedSchemaForm<S> extends HTMLElement {
+  schema: S & JSONSchema
+  data: FromSchema<S>
+  getData(): FromSchema<S>
+  validate(): ValidationResult
+}
+
+/**
+ * Type a `<tosi-schema-form>` by its schema, optionally setting the schema too. Only the
+ * types change; the element is returned as-is.
+ *
+ * @example
+ * const form = typedForm(document.querySelector('tosi-schema-form')!, orderSchema)
+ * form.getData().customer.email // string
+ */
+export const typedForm = <const S extends JSONSchema>(el: Element, schema?: S): TypedSchemaForm<S> => {
+  const form = el as TypedSchemaForm<S>
+  if (schema !== undefined) form.schema = schema
+  return form
+}
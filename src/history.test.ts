@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'bun:test'
+import { createHistory, invertChanges } from './history'
+import type { DataChange } from './diff'
+
+const replace = (path: Array<string | number>, previous: any, value: any): DataChange =>
+  ({ op: 'replace', path, value, previous })
+
+describe('invertChanges', () => {
+  test('reverses the order and each operation', () => {
+    expect(invertChanges([
+      { op: 'add', path: ['items', 2], value: 'x' },
+      { op: 'remove', path: ['items', 0], previous: 'a' },
+      replace(['name'], 'Ada', 'Grace'),
+    ])).toEqual([
+      replace(['name'], 'Grace', 'Ada'),
+      { op: 'add', path: ['items', 0], value: 'a' },
+      { op: 'remove', path: ['items', 2], previous: 'x' },
+    ])
+  })
+
+  test('moves an item back where it came from', () => {
+    expect(invertChanges([{ op: 'move', from: ['items', 2], path: ['items', 0] }]))
+      .toEqual([{ op: 'move', from: ['items', 0], path: ['items', 2] }])
+  })
+})
+
+describe('createHistory', () => {
+  test('undo and redo move steps between the stacks', () => {
+    const history = createHistory()
+    expect(history.canUndo()).toBe(false)
+    history.record([replace(['a'], 1, 2)])
+    history.record([replace(['b'], 1, 2)])
+    
+    expect(history.undo()).toEqual([replace(['b'], 2, 1)])
+    expect(history.canRedo()).toBe(true)
+    expect(history.redo()).toEqual([replace(['b'], 1, 2)])
+    expect(history.undo()).toEqual([replace(['b'], 2, 1)])
+    expect(history.undo()).toEqual([replace(['a'], 2, 1)])
+    expect(history.undo()).toBeUndefined()
+    
+    // a new edit discards what could have been redone
+    history.record([replace(['c'], 1, 2)])
+    expect(history.canRedo()).toBe(false)
+  })
+
+  test('coalesces keyed edits until a pause', () => {
+    let time = 0
+    const history = createHistory({ coalesceMs: 500, now: () => time })
+    history.record([replace(['name'], 'A', 'Ad')], 'name')
+    time = 200
+    history.record([replace(['name'], 'Ad', 'Ada')], 'name')
+    time = 1000
+    history.record([replace(['name'], 'Ada', 'Ada L')], 'name')
+    
+    expect(history.undo()).toEqual([replace(['name'], 'Ada L', 'Ada')])
+    expect(history.undo()).toEqual([replace(['name'], 'Ada', 'A')])
+    expect(history.canUndo()).toBe(false)
+  })
+
+  test('typing after an undo starts a new step', () => {
+    const history = createHistory({ now: () => 0 })
+    history.record([replace(['name'], '', 'A')], 'name')
+    history.record([replace(['tags', 0], 'x', 'y')])
+    history.undo()
+    history.record([replace(['name'], 'A', 'Ab')], 'name')
+    
+    expect(history.undo()).toEqual([replace(['name'], 'Ab', 'A')])
+    expect(history.canUndo()).toBe(true)
+  })
+
+  test('drops the oldest steps beyond the limit', () => {
+    const history = createHistory({ limit: 2 })
+    history.record([replace(['a'], 0, 1)])
+    history.record([replace(['a'], 1, 2)])
+    history.record([replace(['a'], 2, 3)])
+    history.undo()
+    history.undo()
+    expect(history.canUndo()).toBe(false)
+  })
+})
@@ -0,0 +1,105 @@
+// Edit History
+// Undo and redo stacks of data changes, with bursts of typing coalesced into one step
+
+import type { DataChange } from './diff'
+
+export interface EditHistory {
+  // record an edit; edits with the same key in quick succession become one step
+  record: (changes: DataChange[], key?: string) => void
+  // the changes that undo (or redo) the latest step, which moves to the other stack
+  undo: () => DataChange[] | undefined
+  redo: () => DataChange[] | undefined
+  canUndo: () => boolean
+  canRedo: () => boolean
+  clear: () => void
+}
+
+export interface EditHistoryOptions {
+  // steps kept before the oldest are dropped
+  limit?: number
+  // the longest pause between keyed edits that still coalesces them
+  coalesceMs?: number
+  now?: () => number
+}
+
+interface HistoryStep {
+  changes: DataChange[]
+  key?: string
+  time: number
+}
+
+// The changes that reverse `changes`, in the order they must be applied
+export const invertChanges = (changes: DataChange[]): DataChange[] =>
+  [...changes].reverse().map(({ op, path, from, value, previous }): DataChange => {
+    if (op === 'move') return { op, from: path, path: from! }
+    if (op === 'add') return { op: 'remove', path, previous: value }
+    if (op === 'remove') return { op: 'add', path, value: previous }
+    return { op: 'replace', path, value: previous, previous: value }
+  })
+
+const samePath = (a: DataChange, b: DataChange): boolean =>
+  a.path.length === b.path.length && a.path.every((part, i) => part === b.path[i])
+
+// Collapse a run of replacements of one value into a single replacement
+const compact = (changes: DataChange[]): DataChange[] => {
+  const first = changes[0]!
+  const last = changes[changes.length - 1]!
+  if (changes.some(change => change.op !== 'replace' || !samePath(change, first))) return changes
+  return [{ op: 'replace', path: first.path, value: last.value, previous: first.previous }]
+}
+
+/**
+ * Create an undo/redo history
+ *
+ * @example
+ * const history = createHistory()
+ * history.record([{ op: 'replace', path: ['name'], value: 'Ad', previous: 'A' }], 'name')
+ * history.record([{ op: 'replace', path: ['name'], value: 'Ada', previous: 'Ad' }], 'name')
+ * history.undo() // [{ op: 'replace', path: ['name'], value: 'A', previous: 'Ada' }]
+ */
+export const createHistory = ({
+  limit = 100,
+  coalesceMs = 1000,
+  now = () => Date.now(),
+}: EditHistoryOptions = {}): EditHistory => {
+  const undoStack: HistoryStep[] = []
+  const redoStack: HistoryStep[] = []
+
+  return {
+    record(changes, key) {
+      if (changes.length === 0) return
+      const time = now()
+      const last = undoStack[undoStack.length - 1]
+      redoStack.length = 0
+      if (last && key !== undefined && last.key === key && time - last.time <= coalesceMs) {
+        last.changes = compact([...last.changes, ...changes])
+        last.time = time
+        return
+      }
+      undoStack.push({ changes, key, time })
+      if (undoStack.length > limit) undoStack.shift()
+    },
+    undo() {
+      const step = undoStack.pop()
+      if (!step) return undefined
+      redoStack.push(step)
+      // typing after an undo starts a new step
+      const previous = undoStack[undoStack.length - 1]
+      if (previous) previous.key = undefined
+      return invertChanges(step.changes)
+    },
+    redo() {
+      const step = redoStack.pop()
+      if (!step) return undefined
+      // a redone step never absorbs later typing
+      undoStack.push({ ...step, key: undefined })
+      return step.changes
+    },
+    canUndo: () => undoStack.length > 0,
+    canRedo: () => redoStack.length > 0,
+    clear() {
+      undoStack.length = 0
+      redoStack.length = 0
+    },
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'bun:test'
+import { inferSchema } from './infer'
+import { validateData } from './validate'
+import { blogPostSampleData, contactSampleData, contentBuilderSampleData, orderSampleData } from './example-schemas'
+
+describe('inferSchema', () => {
+  test('infers types, nested properties and items', () => {
+    expect(inferSchema({ name: 'Ada', age: 36, score: 9.5, admin: false, tags: ['x'], address: { city: 'Oslo' } })).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        score: { type: 'number' },
+        admin: { type: 'boolean' },
+        tags: { type: 'array', items: { type: 'string' } },
+        address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      },
+      required: ['name', 'age', 'score', 'admin', 'tags', 'address'],
+    })
+    expect(inferSchema([])).toEqual({ type: 'array' })
+    expect(inferSchema(undefined)).toEqual({})
+  })
+
+  test('merges what the samples disagree on', () => {
+    const schema = inferSchema([
+      { id: 1, note: 'hi', value: 1 },
+      { id: 2.5, note: null, value: 'one', extra: true },
+    ], { samples: true })
+    expect(schema.properties).toEqual({
+      id: { type: 'number' },
+      note: { type: ['string', 'null'] },
+      value: { type: ['integer', 'string'] },
+      extra: { type: 'boolean' },
+    })
+    expect(schema.required).toEqual(['id', 'value'])
+  })
+
+  test('keys left empty are not required', () => {
+    expect(inferSchema({ name: 'Ada', note: '', parent: null, tags: [], address: { city: '' } }).required).toEqual(['name'])
+  })
+
+  test('detects formats', () => {
+    const schema = inferSchema({
+      email: 'ada@example.com',
+      site: 'https://example.com/a',
+      born: '1815-12-10',
+      seen: '2025-01-16T10:30:00',
+      stamped: '2025-01-16T10:30:00Z',
+      label: 'Note: not a uri',
+      blank: '',
+    })
+    expect(schema.properties!.email).toEqual({ type: 'string', format: 'email' })
+    expect(schema.properties!.site).toEqual({ type: 'string', format: 'uri' })
+    expect(schema.properties!.born).toEqual({ type: 'string', format: 'date' })
+    expect(schema.properties!.seen).toEqual({ type: 'string', format: 'date-time' })
+    // a datetime-local input can't hold a time zone
+    expect(schema.properties!.stamped).toEqual({ type: 'string' })
+    expect(schema.properties!.label).toEqual({ type: 'string' })
+    expect(schema.properties!.blank).toEqual({ type: 'string' })
+    expect(inferSchema({ email: 'ada@example.com' }, { formats: false }).properties!.email).toEqual({ type: 'string' })
+  })
+
+  test('offers enums for strings drawn from a few repeated values', () => {
+    const items = ['pending', 'shipped', 'pending', 'shipped', 'cancelled'].map((status, i) => ({ status, sku: `SKU-${i}` }))
+    const schema = inferSchema({ items })
+    expect((schema.properties!.items!.items as any).properties).toEqual({
+      status: { type: 'string', enum: ['pending', 'shipped', 'cancelled'] },
+      sku: { type: 'string' },
+    })
+    expect(inferSchema(['a', 'a', 'b'], { maxEnumValues: 0 }).items).toEqual({ type: 'string' })
+    expect(inferSchema(['a', 'b', 'c', 'a'], { maxEnumValues: 2 }).items).toEqual({ type: 'string' })
+    expect(inferSchema(['a', 'a'], { samples: true })).toEqual({ type: 'string' })
+  })
+
+  test('each sample is valid against its schema, as the form validates it', () => {
+    for (const sample of [orderSampleData, contentBuilderSampleData, contactSampleData, blogPostSampleData]) {
+      expect(validateData(sample, inferSchema(sample), { requireNonEmpty: true })).toEqual([])
+    }
+  })
+})
@@ -0,0 +1,145 @@
+// Schema Inference
+// Guess a JSON Schema from sample data, e.g. to prototype a form for an existing payload
+
+import type { JSONSchema } from './blueprint'
+import { formatChecks } from './validate'
+
+export interface InferOptions {
+  // the sample is a list of samples of the same shape, rather than one (array) value
+  samples?: boolean
+  // strings with two to this many distinct values, some repeated, become enums (0 for none)
+  maxEnumValues?: number
+  // detect email, uri, date and date-time strings
+  formats?: boolean
+}
+
+// What's been seen at one place in the samples
+interface Observed {
+  types: Set<string>
+  strings: string[]
+  // how many objects were seen, and how many of them had each property, and had it empty
+  objects: number
+  properties: Map<string, { present: number, empty: number, observed: Observed }>
+  items?: Observed
+}
+
+const observed = (): Observed => ({ types: new Set(), strings: [], objects: 0, properties: new Map() })
+
+// Checked in order, so a date-time isn't taken for something looser
+const formatOrder = ['date-time', 'date', 'email', 'uri']
+
+// The date-times a datetime-local input (which the form renders date-times with) can hold:
+// without a time zone, and written the way the input writes them back
+const localDateTime = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?$/
+
+// Further conditions a string must meet to be taken for a format
+const formatGuards: Record<string, (s: string) => boolean> = {
+  // so text like 'Note:' isn't taken for a URI
+  uri: s => s.includes('://'),
+  // so a zoned timestamp isn't dropped by the form
+  'date-time': s => localDateTime.test(s),
+}
+
+// The format every string matches, if any
+const detectFormat = (strings: string[]): string | undefined => {
+  if (strings.length === 0) return undefined
+  return formatOrder.find(format =>
+    strings.every(s => formatChecks[format]!.test(s) && (formatGuards[format]?.(s) ?? true))
+  )
+}
+
+// Whether a value is read back from a form as missing: an empty string or null, or an
+// object or array with nothing else in it
+const isEmpty = (value: any): boolean =>
+  value == null || value === '' || (typeof value === 'object' && Object.values(value).every(isEmpty))
+
+const observe = (at: Observed, value: any): void => {
+  if (value === undefined || typeof value === 'function') return
+  if (value === null) {
+    at.types.add('null')
+  } else if (Array.isArray(value)) {
+    at.types.add('array')
+    for (const item of value) observe(at.items ??= observed(), item)
+  } else if (typeof value === 'object') {
+    at.types.add('object')
+    at.objects++
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) continue
+      let property = at.properties.get(key)
+      if (!property) at.properties.set(key, property = { present: 0, empty: 0, observed: observed() })
+      property.present++
+      if (isEmpty(child)) property.empty++
+      observe(property.observed, child)
+    }
+  } else if (typeof value === 'number') {
+    at.types.add(Number.isInteger(value) ? 'integer' : 'number')
+  } else if (typeof value === 'string') {
+    at.types.add('string')
+    at.strings.push(value)
+  } else if (typeof value === 'boolean') {
+    at.types.add('boolean')
+  }
+}
+
+const build = (at: Observed, options: Required<Omit<InferOptions, 'samples'>>): JSONSchema => {
+  if (at.types.has('number')) at.types.delete('integer')
+  // null last, so it reads as 'nullable'
+  const types = [...at.types].sort((a, b) => Number(a === 'null') - Number(b === 'null'))
+  if (types.length === 0) return {}
+
+  const schema: JSONSchema = { type: types.length === 1 ? types[0] : types }
+
+  if (at.types.has('string')) {
+    const filled = at.strings.filter(s => s !== '')
+    const format = options.formats ? detectFormat(filled) : undefined
+    const distinct = [...new Set(filled)]
+    if (format) {
+      schema.format = format
+    } else if (
+      types.length === 1 &&
+      distinct.length > 1 &&
+      distinct.length <= options.maxEnumValues &&
+      distinct.length < filled.length
+    ) {
+      schema.enum = distinct
+    }
+  }
+
+  if (at.types.has('object')) {
+    schema.properties = {}
+    const required: string[] = []
+    for (const [key, { present, empty, observed }] of at.properties) {
+      schema.properties[key] = build(observed, options)
+      // an empty value would fail a required field, so a key left empty somewhere isn't one
+      if (present === at.objects && empty === 0) required.push(key)
+    }
+    if (required.length > 0) schema.required = required
+  }
+
+  // arrays that were always empty get the form's default, string items
+  if (at.items && at.items.types.size > 0) schema.items = build(at.items, options)
+
+  return schema
+}
+
+/**
+ * Infer a JSON Schema from sample data: types (nullable or multi-type where the samples
+ * disagree), nested `properties` and `items`, string formats, `required` for the properties
+ * every sample fills in (not with `''`, `null` or an empty object or array), and `enum`s
+ * for strings drawn from a few repeated values. Pass `{ samples: true }` to infer from a
+ * list of samples.
+ *
+ * @example
+ * inferSchema([{ email: 'ada@example.com', age: 36 }, { email: 'bob@example.com', age: null, note: 'hi' }], { samples: true })
+ * // { type: 'object', properties: {
+ * //   email: { type: 'string', format: 'email' },
+ * //   age: { type: ['integer', 'null'] },
+ * //   note: { type: 'string' }
+ * // }, required: ['email'] }
+ */
+export const inferSchema = (sample: any, options: InferOptions = {}): JSONSchema => {
+  const root = observed()
+  const samples = options.samples && Array.isArray(sample) ? sample : [sample]
+  for (const value of samples) observe(root, value)
+  return build(root, { maxEnumValues: options.maxEnumValues ?? 5, formats: options.formats ?? true })
+}
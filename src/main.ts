@@ -33,25 +33,11 @@ function hideValidationMessage() {
 }
 
 function validateForm(): boolean {
-  const formEl = form.querySelector('form') as HTMLFormElement
-  if (!formEl) return false
+  // Runs the schema validator and shows errors beneath each offending field
+  const { valid, errors } = form.validate()
   
-  // Trigger native validation UI
-  const isValid = formEl.checkValidity()
-  
-  if (!isValid) {
-    // reportValidity shows the browser's validation UI
-    formEl.reportValidity()
-    
-    // Collect invalid fields for our message
-    const invalidFields: string[] = []
-    formEl.querySelectorAll(':invalid').forEach((el: Element) => {
-      const input = el as HTMLInputElement
-      const label = input.labels?.[0]?.textContent || input.name || 'Unknown field'
-      invalidFields.push(label.replace(' *', ''))
-    })
-    
-    showValidationMessage(false, `Validation failed. Invalid fields: ${invalidFields.join(', ')}`)
+  if (!valid) {
+    showValidationMessage(false, `Validation failed. Invalid fields: ${Object.keys(errors).join(', ')}`)
     return false
   }
   
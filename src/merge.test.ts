@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'bun:test'
+import { applyConditionals, mergeAllOf } from './merge'
+import { createSchemaResolver } from './refs'
+import type { JSONSchema } from './blueprint'
+
+describe('mergeAllOf', () => {
+  test('schemas without allOf are returned as-is', () => {
+    const schema: JSONSchema = { type: 'string' }
+    expect(mergeAllOf(schema)).toEqual({ schema, conflicts: [] })
+  })
+
+  test('unions properties and concatenates required', () => {
+    const { schema, conflicts } = mergeAllOf({
+      title: 'Employee',
+      allOf: [
+        { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+        { properties: { name: { type: 'string' }, id: { minLength: 3 } }, required: ['name', 'id'] }
+      ]
+    })
+    expect(conflicts).toEqual([])
+    expect(schema).toEqual({
+      title: 'Employee',
+      type: 'object',
+      properties: { id: { type: 'string', minLength: 3 }, name: { type: 'string' } },
+      required: ['id', 'name']
+    })
+  })
+
+  test('intersects numeric constraints and types', () => {
+    const { schema } = mergeAllOf({
+      allOf: [
+        { type: 'number', minimum: 0, maximum: 100, multipleOf: 2 },
+        { type: 'integer', minimum: 10, maximum: 200, multipleOf: 3 }
+      ]
+    })
+    expect(schema).toEqual({ type: 'integer', minimum: 10, maximum: 100, multipleOf: 6 })
+  })
+
+  test('reports conflicts', () => {
+    const { conflicts } = mergeAllOf({
+      allOf: [
+        { type: 'object', properties: { age: { type: 'string' } } },
+        { properties: { age: { type: 'number' } } },
+        { minProperties: 3, maxProperties: 2 }
+      ]
+    })
+    expect(conflicts).toEqual([
+      'age: type "string" conflicts with "number"',
+      'minProperties 3 is greater than maxProperties 2'
+    ])
+  })
+
+  test('resolves $ref members', () => {
+    const root: JSONSchema = {
+      $defs: { base: { type: 'object', properties: { id: { type: 'string' } } } },
+      allOf: [{ $ref: '#/$defs/base' }, { properties: { extra: { type: 'boolean' } } }]
+    }
+    const { schema } = mergeAllOf(root, createSchemaResolver(root))
+    expect(Object.keys(schema.properties!)).toEqual(['id', 'extra'])
+  })
+
+  test('distributes over union members', () => {
+    const { schema } = mergeAllOf({
+      allOf: [
+        { type: 'object', properties: { id: { type: 'string' } } },
+        {
+          oneOf: [
+            { title: 'Cat', properties: { meows: { type: 'boolean' } } },
+            { title: 'Dog', properties: { barks: { type: 'boolean' } } }
+          ]
+        }
+      ]
+    })
+    expect(schema.oneOf?.map(v => v.title)).toEqual(['Cat', 'Dog'])
+    expect(Object.keys(schema.oneOf![1]!.properties!)).toEqual(['id', 'barks'])
+    expect(schema.oneOf![0]!.type).toBe('object')
+  })
+})
+
+describe('applyConditionals', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: { kind: { type: 'string' }, card: { type: 'string' } },
+    if: { properties: { kind: { const: 'business' } }, required: ['kind'] },
+    then: { properties: { vat: { type: 'string' } }, required: ['vat'] },
+    else: { properties: { birthday: { type: 'string', format: 'date' } } },
+    dependentRequired: { card: ['billing'] },
+    dependentSchemas: { card: { properties: { billing: { type: 'string' } } } }
+  }
+
+  test('chooses then or else by testing if', () => {
+    const business = applyConditionals(schema, { kind: 'business' }).schema
+    expect(Object.keys(business.properties!)).toEqual(['kind', 'card', 'vat'])
+    expect(business.required).toEqual(['vat'])
+    expect(business.if).toBeUndefined()
+    
+    const personal = applyConditionals(schema, { kind: 'personal' }).schema
+    expect(Object.keys(personal.properties!)).toEqual(['kind', 'card', 'birthday'])
+  })
+
+  test('applies dependencies for non-empty properties', () => {
+    expect(applyConditionals(schema, { card: '' }).schema.required).toBeUndefined()
+    const withCard = applyConditionals(schema, { card: '4111' }).schema
+    expect(withCard.required).toEqual(['billing'])
+    expect(withCard.properties!.billing).toEqual({ type: 'string' })
+  })
+})
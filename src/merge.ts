@@ -0,0 +1,282 @@
+// allOf Merging
+// Collapses allOf members, and the conditionals that apply to the current data,
+// into one effective schema for rendering
+
+import type { JSONSchema } from './blueprint'
+import type { SchemaResolver } from './refs'
+import { deepEqual, isValid } from './validate'
+
+export interface MergeResult {
+  schema: JSONSchema
+  // human-readable descriptions of keywords that could not be reconciled
+  conflicts: string[]
+}
+
+// Lower bounds take the larger value, upper bounds the smaller
+const lowerBounds = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties', 'minContains']
+const upperBounds = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties', 'maxContains']
+const boundPairs: Array<[string, string]> = [
+  ['minimum', 'maximum'],
+  ['minLength', 'maxLength'],
+  ['minItems', 'maxItems'],
+  ['minProperties', 'maxProperties'],
+  ['minContains', 'maxContains'],
+]
+
+// Keywords where the first member's value wins without counting as a conflict
+const annotations = new Set([
+  'title', 'description', 'default', 'examples', '$comment', '$id', '$anchor', '$schema', 'discriminator',
+])
+
+const typeList = (type: string | string[]): string[] => (Array.isArray(type) ? type : [type])
+
+// Intersect two type keywords, where 'integer' is a subset of 'number'
+const intersectTypes = (a: string | string[], b: string | string[]): string[] => {
+  const right = typeList(b)
+  return typeList(a).flatMap(type => {
+    if (right.includes(type)) return [type]
+    if (type === 'number' && right.includes('integer')) return ['integer']
+    if (type === 'integer' && right.includes('number')) return ['integer']
+    return []
+  })
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+
+// Combine two patterns so a string must match both
+const bothPatterns = (a: string, b: string): string =>
+  `(?=[\\s\\S]*?(?:${a}))(?=[\\s\\S]*?(?:${b}))[\\s\\S]*`
+
+// Merge two schemas as if both applied, recording anything irreconcilable
+const mergePair = (
+  a: JSONSchema,
+  b: JSONSchema,
+  conflicts: string[],
+  at: string,
+  resolver?: SchemaResolver
+): JSONSchema => {
+  const merged: JSONSchema = { ...a }
+  const conflict = (message: string) => conflicts.push(at ? `${at}: ${message}` : message)
+
+  for (const [key, value] of Object.entries(b)) {
+    const current = merged[key]
+    if (current === undefined) {
+      merged[key] = value
+      continue
+    }
+    if (annotations.has(key) || deepEqual(current, value)) continue
+
+    if (key === 'type') {
+      const types = intersectTypes(current, value)
+      if (types.length === 0) {
+        conflict(`type ${JSON.stringify(current)} conflicts with ${JSON.stringify(value)}`)
+      } else {
+        merged.type = types.length === 1 ? types[0] : types
+      }
+    } else if (key === 'properties') {
+      const properties: Record<string, JSONSchema> = { ...current }
+      for (const [name, propSchema] of Object.entries(value as Record<string, JSONSchema>)) {
+        const existing = properties[name]
+        properties[name] = existing
+          ? mergePair(
+            resolver?.resolve(existing) ?? existing,
+            resolver?.resolve(propSchema) ?? propSchema,
+            conflicts,
+            at ? `${at}.${name}` : name,
+            resolver
+          )
+          : propSchema
+      }
+      merged.properties = properties
+    } else if (
+      key === 'items' &&
+      typeof current === 'object' && !Array.isArray(current) &&
+      typeof value === 'object' && !Array.isArray(value)
+    ) {
+      merged.items = mergePair(
+        resolver?.resolve(current) ?? current,
+        resolver?.resolve(value) ?? value,
+        conflicts,
+        `${at}[]`,
+        resolver
+      )
+    } else if (key === 'required') {
+      merged.required = [...new Set([...current, ...value])]
+    } else if (lowerBounds.includes(key)) {
+      merged[key] = Math.max(current, value)
+    } else if (upperBounds.includes(key)) {
+      merged[key] = Math.min(current, value)
+    } else if (key === 'multipleOf') {
+      if (Number.isInteger(current) && Number.isInteger(value)) {
+        merged.multipleOf = (current * value) / gcd(current, value)
+      } else {
+        conflict(`multipleOf ${current} conflicts with ${value}`)
+      }
+    } else if (key === 'enum') {
+      const values = (current as any[]).filter(v => (value as any[]).some(w => deepEqual(v, w)))
+      if (values.length === 0) conflict('enum values have nothing in common')
+      else merged.enum = values
+    } else if (key === 'pattern') {
+      merged.pattern = bothPatterns(current, value)
+    } else if (key === 'uniqueItems' || key === 'readOnly' || key === 'writeOnly') {
+      merged[key] = current || value
+    } else if (key === 'additionalProperties' && (current === false || value === false)) {
+      merged.additionalProperties = false
+    } else if (
+      ['dependentRequired', 'dependentSchemas', 'patternProperties', '$defs', 'definitions'].includes(key)
+    ) {
+      merged[key] = { ...current, ...value }
+    } else {
+      conflict(`${key} ${JSON.stringify(current)} conflicts with ${JSON.stringify(value)}`)
+    }
+  }
+
+  if (merged.const !== undefined && merged.enum && !merged.enum.some((v: any) => deepEqual(v, merged.const))) {
+    conflict(`const ${JSON.stringify(merged.const)} is not in enum`)
+  }
+  for (const [min, max] of boundPairs) {
+    if (merged[min] !== undefined && merged[max] !== undefined && merged[min] > merged[max]) {
+      conflict(`${min} ${merged[min]} is greater than ${max} ${merged[max]}`)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Merge a schema's allOf members (and its own sibling keywords) into one schema
+ *
+ * Properties are unioned, required lists concatenated and numeric bounds intersected.
+ * Members that are $refs are resolved first; members that are unions are distributed,
+ * so `allOf: [base, { oneOf: [a, b] }]` becomes `oneOf: [base + a, base + b]`.
+ *
+ * @example
+ * mergeAllOf({ allOf: [
+ *   { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+ *   { properties: { name: { type: 'string' } }, required: ['name'] }
+ * ] })
+ * // { schema: { type: 'object', properties: { id, name }, required: ['id', 'name'] }, conflicts: [] }
+ */
+export const mergeAllOf = (
+  schema: JSONSchema,
+  resolver?: SchemaResolver,
+  seen: Set<JSONSchema> = new Set()
+): MergeResult => {
+  if (!schema.allOf) return { schema, conflicts: [] }
+
+  const conflicts: string[] = []
+  const { allOf, ...own } = schema
+  const members: JSONSchema[] = [own]
+  for (const member of allOf as JSONSchema[]) {
+    const resolved = resolver ? resolver.resolve(member) : member
+    if (!resolved) {
+      conflicts.push(`Unresolved reference: ${member.$ref}`)
+      continue
+    }
+    if (seen.has(resolved)) continue
+    const nested = mergeAllOf(resolved, resolver, new Set([...seen, resolved]))
+    conflicts.push(...nested.conflicts)
+    members.push(nested.schema)
+  }
+
+  // Merge the plain members, then distribute over any union members
+  const unions = members.filter(m => m.anyOf || m.oneOf)
+  let merged = members
+    .map(m => {
+      if (!m.anyOf && !m.oneOf) return m
+      const { anyOf, oneOf, ...rest } = m
+      return rest
+    })
+    .reduce((acc, m) => mergePair(acc, m, conflicts, '', resolver), {} as JSONSchema)
+
+  if (unions.length > 0) {
+    const { title, description, default: defaultValue, ...shared } = merged
+    let variants: JSONSchema[] = [shared]
+    for (const union of unions) {
+      const options = (union.anyOf || union.oneOf) as JSONSchema[]
+      variants = variants.flatMap(variant =>
+        options.map(option => mergePair(variant, resolver?.resolve(option) ?? option, conflicts, '', resolver))
+      )
+    }
+    const keyword = unions.every(u => u.anyOf) ? 'anyOf' : 'oneOf'
+    merged = { [keyword]: variants }
+    if (title !== undefined) merged.title = title
+    if (description !== undefined) merged.description = description
+    if (defaultValue !== undefined) merged.default = defaultValue
+  }
+
+  return { schema: merged, conflicts: [...new Set(conflicts)] }
+}
+
+const conditionalKeywords = ['if', 'then', 'else', 'dependentSchemas', 'dependentRequired', 'dependencies']
+
+// Does the schema's shape depend on the data?
+export const hasConditionals = (schema: JSONSchema): boolean =>
+  conditionalKeywords.some(keyword => schema[keyword] !== undefined)
+
+// Properties left empty in a form don't trigger dependencies
+const isPresent = (value: any): boolean => value !== undefined && value !== null && value !== ''
+
+/**
+ * Merge the conditional subschemas that apply to a value into its schema
+ *
+ * `then` or `else` is chosen by testing `if` against the value; `dependentSchemas`,
+ * `dependentRequired` and draft-07 `dependencies` apply for each property that has a
+ * (non-empty) value. The conditional keywords themselves are removed.
+ *
+ * @example
+ * applyConditionals({
+ *   type: 'object',
+ *   properties: { kind: { enum: ['personal', 'business'] } },
+ *   if: { properties: { kind: { const: 'business' } } },
+ *   then: { properties: { vat: { type: 'string' } }, required: ['vat'] }
+ * }, { kind: 'business' }).schema
+ * // { type: 'object', properties: { kind, vat }, required: ['vat'] }
+ */
+export const applyConditionals = (
+  schema: JSONSchema,
+  value: any,
+  resolver?: SchemaResolver,
+  depth = 0
+): MergeResult => {
+  if (!hasConditionals(schema)) return { schema, conflicts: [] }
+
+  const {
+    if: condition,
+    then: thenSchema,
+    else: elseSchema,
+    dependentSchemas,
+    dependentRequired,
+    dependencies,
+    ...base
+  } = schema
+  const object = value !== null && typeof value === 'object' ? value : {}
+  const active: JSONSchema[] = []
+  const required: string[] = []
+
+  if (condition !== undefined) {
+    const branch = isValid(value, condition, resolver) ? thenSchema : elseSchema
+    if (branch !== undefined && typeof branch === 'object') active.push(branch)
+  }
+  for (const [key, dependent] of Object.entries((dependentSchemas || {}) as Record<string, JSONSchema>)) {
+    if (isPresent(object[key])) active.push(dependent)
+  }
+  for (const [key, keys] of Object.entries((dependentRequired || {}) as Record<string, string[]>)) {
+    if (isPresent(object[key])) required.push(...keys)
+  }
+  for (const [key, dependency] of Object.entries((dependencies || {}) as Record<string, string[] | JSONSchema>)) {
+    if (!isPresent(object[key])) continue
+    if (Array.isArray(dependency)) required.push(...dependency)
+    else active.push(dependency)
+  }
+  if (required.length > 0) active.push({ required })
+
+  const merged = mergeAllOf({ ...base, allOf: [...(base.allOf || []), ...active] }, resolver)
+
+  // A branch may carry conditionals of its own
+  if (depth < 8 && hasConditionals(merged.schema)) {
+    const nested = applyConditionals(merged.schema, value, resolver, depth + 1)
+    return { schema: nested.schema, conflicts: [...new Set([...merged.conflicts, ...nested.conflicts])] }
+  }
+  return merged
+}
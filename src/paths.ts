@@ -0,0 +1,48 @@
+// Data Paths
+// The strings used in data-path attributes, e.g. 'customer.email' or 'items[2].sku'
+
+// Keys that can't be written as a plain dotted segment are quoted: a["b.c"]
+const plainKey = /^[^.[\]"]+$/
+const indexKey = /^\d+$/
+
+// Append a property key to a path
+export const joinPath = (base: string, key: string): string => {
+  if (!plainKey.test(key) || indexKey.test(key)) return `${base}[${JSON.stringify(key)}]`
+  return base ? `${base}.${key}` : key
+}
+
+// Append an array index to a path
+export const indexPath = (base: string, index: number): string => `${base}[${index}]`
+
+// Split a path into property keys (strings) and array indices (numbers)
+export const parsePath = (path: string): Array<string | number> => {
+  const parts: Array<string | number> = []
+  const segment = /\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]|([^.[\]]+)/g
+  let match: RegExpExecArray | null
+  while ((match = segment.exec(path)) !== null) {
+    if (match[1] !== undefined) parts.push(Number(match[1]))
+    else if (match[2] !== undefined) parts.push(JSON.parse(match[2]))
+    else if (match[3] !== undefined) parts.push(match[3])
+  }
+  return parts
+}
+
+// Read a value by path (undefined if any step is missing)
+export const getValueByPath = (obj: any, path: string): any => {
+  let current = obj
+  for (const part of parsePath(path)) {
+    if (current === null || current === undefined) return undefined
+    current = current[part]
+  }
+  return current
+}
+
+// Build a path from keys and indices (the inverse of parsePath)
+export const formatPath = (parts: Array<string | number>): string =>
+  parts.reduce<string>(
+    (path, part) => (typeof part === 'number' ? indexPath(path, part) : joinPath(path, part)),
+    ''
+  )
+
+// Path of the containing object or array ('' at the root)
+export const parentPath = (path: string): string => formatPath(parsePath(path).slice(0, -1))
@@ -0,0 +1,123 @@
+// Schema Reference Resolution
+// Resolves $ref pointers ($defs, definitions, $anchor) locally and via a pluggable external resolver
+
+import type { JSONSchema } from './blueprint'
+
+// Looks up an external schema document by URI (the part of a $ref before the '#')
+export type RefResolver = (uri: string) => JSONSchema | undefined
+
+export interface SchemaResolver {
+  // The root document local refs resolve against
+  root: JSONSchema
+  // Follow a $ref (and chains of $refs), merging sibling keywords over the target
+  resolve(schema: JSONSchema): JSONSchema | undefined
+  // The raw definition a $ref ultimately points at, used to detect recursion
+  target(schema: JSONSchema): JSONSchema | undefined
+}
+
+/**
+ * Create a RefResolver backed by an in-memory map of URI -> schema document
+ *
+ * @example
+ * form.refResolver = mapResolver({
+ *   'common.json': { $defs: { address: { type: 'object', properties: { ... } } } }
+ * })
+ * // { $ref: 'common.json#/$defs/address' } now resolves without network access
+ */
+export const mapResolver = (documents: Record<string, JSONSchema>): RefResolver =>
+  (uri: string) => documents[uri]
+
+// Unescape a JSON pointer token (RFC 6901), including URI percent-encoding
+const unescapeToken = (token: string): string =>
+  decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+
+// Follow a JSON pointer such as '/$defs/Node' within a document
+export const resolvePointer = (doc: any, pointer: string): any => {
+  if (pointer === '') return doc
+  if (!pointer.startsWith('/')) return undefined
+  let current = doc
+  for (const token of pointer.slice(1).split('/')) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = current[unescapeToken(token)]
+  }
+  return current
+}
+
+/**
+ * Create a resolver for a root schema
+ *
+ * Local refs ('#/$defs/Node', '#/definitions/Node', '#Node' anchors) resolve against
+ * the document the referring subschema came from; anything before the '#' is looked
+ * up through the optional external resolver.
+ */
+export const createSchemaResolver = (root: JSONSchema, external?: RefResolver): SchemaResolver => {
+  const documentOf = new WeakMap<object, JSONSchema>()
+  const anchors = new WeakMap<JSONSchema, Record<string, JSONSchema>>()
+  const documents = new Map<string, JSONSchema | undefined>()
+
+  // Remember which document every subschema belongs to, and collect its anchors
+  const register = (doc: JSONSchema) => {
+    const docAnchors: Record<string, JSONSchema> = {}
+    const walk = (node: any) => {
+      if (node === null || typeof node !== 'object' || documentOf.has(node)) return
+      documentOf.set(node, doc)
+      if (!Array.isArray(node)) {
+        if (typeof node.$anchor === 'string') docAnchors[node.$anchor] = node
+        if (typeof node.$id === 'string' && node.$id.startsWith('#')) docAnchors[node.$id.slice(1)] = node
+      }
+      Object.values(node).forEach(walk)
+    }
+    walk(doc)
+    anchors.set(doc, docAnchors)
+  }
+  register(root)
+
+  const loadDocument = (uri: string, base: JSONSchema): JSONSchema | undefined => {
+    if (uri === '') return base
+    if (uri === root.$id) return root
+    if (!documents.has(uri)) {
+      const doc = external?.(uri)
+      if (doc) register(doc)
+      documents.set(uri, doc)
+    }
+    return documents.get(uri)
+  }
+
+  // Follow a single $ref hop
+  const deref = (schema: JSONSchema): JSONSchema | undefined => {
+    const ref = schema.$ref as string
+    const hashIndex = ref.indexOf('#')
+    const uri = hashIndex < 0 ? ref : ref.slice(0, hashIndex)
+    const fragment = hashIndex < 0 ? '' : ref.slice(hashIndex + 1)
+    const doc = loadDocument(uri, documentOf.get(schema) ?? root)
+    if (!doc) return undefined
+    if (fragment === '' || fragment.startsWith('/')) return resolvePointer(doc, fragment)
+    return anchors.get(doc)?.[fragment]
+  }
+
+  const target = (schema: JSONSchema): JSONSchema | undefined => {
+    let current: JSONSchema | undefined = schema
+    const seen = new Set<JSONSchema>()
+    while (current?.$ref !== undefined) {
+      if (seen.has(current)) return undefined
+      seen.add(current)
+      current = deref(current)
+    }
+    return current
+  }
+
+  const resolve = (schema: JSONSchema): JSONSchema | undefined => {
+    if (schema.$ref === undefined) return schema
+    const definition = target(schema)
+    if (!definition) return undefined
+
+    // Keywords next to a $ref (title, description, default...) override the definition
+    const { $ref, ...siblings } = schema
+    if (Object.keys(siblings).length === 0) return definition
+    const merged = { ...definition, ...siblings }
+    documentOf.set(merged, documentOf.get(definition) ?? root)
+    return merged
+  }
+
+  return { root, resolve, target }
+}
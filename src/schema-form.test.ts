@@ -1,5 +1,14 @@
 import { describe, test, expect, beforeAll } from 'bun:test'
-import { schemaForm } from './schema-form'
+import { xin, boxed, updates } from 'tosijs'
+import { schemaForm, mapResolver, registerWidget, unregisterWidget, inferSchema, schemaFingerprint, type DraftStorage } from './schema-form'
+import {
+  orderSchema,
+  orderSampleData,
+  contentBuilderSchema,
+  contentBuilderSampleData,
+  contactSampleData,
+  blogPostSampleData,
+} from './example-schemas'
 
 // Wait for queueRender to flush
 const nextTick = () => new Promise(resolve => setTimeout(resolve, 0))
@@ -1303,4 +1312,2235 @@ describe('tosi-schema-form', () => {
       form.remove()
     })
   })
+
+  describe('$ref resolution', () => {
+    test('resolves $defs refs in properties, items and union variants', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        $defs: {
+          address: {
+            type: 'object',
+            properties: {
+              city: { type: 'string' },
+              zip: { type: 'string' }
+            }
+          },
+          tag: { type: 'string', minLength: 2 },
+          email: { type: 'string', format: 'email', title: 'Email' }
+        },
+        properties: {
+          home: { $ref: '#/$defs/address', title: 'Home Address' },
+          tags: { type: 'array', items: { $ref: '#/$defs/tag' } },
+          contact: {
+            anyOf: [
+              { $ref: '#/$defs/email' },
+              { type: 'number', title: 'Phone Extension' }
+            ]
+          }
+        }
+      }
+      form.data = { home: { city: 'Austin', zip: '78701' }, tags: ['ts'], contact: 'a@b.com' }
+      await nextTick()
+      
+      expect(form.querySelector('.schema-object legend').textContent).toBe('Home Address')
+      expect(form.querySelector('input[name="tags[0]"]').minLength).toBe(2)
+      expect(form.querySelector('input[name="contact"]').type).toBe('email')
+      expect(form.querySelector('.schema-union-selector option').textContent).toBe('Email')
+      
+      expect(form.getData()).toEqual({ home: { city: 'Austin', zip: '78701' }, tags: ['ts'], contact: 'a@b.com' })
+      
+      form.remove()
+    })
+
+    test('resolves legacy definitions and a $ref root schema', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        $ref: '#/definitions/person',
+        definitions: {
+          person: {
+            type: 'object',
+            properties: { name: { type: 'string' } }
+          }
+        }
+      }
+      form.data = { name: 'Ada' }
+      await nextTick()
+      
+      expect(form.querySelector('input[name="name"]').value).toBe('Ada')
+      
+      form.remove()
+    })
+
+    test('renders recursive schemas lazily', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        $defs: {
+          node: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              next: { $ref: '#/$defs/node' },
+              children: { type: 'array', items: { $ref: '#/$defs/node' } }
+            }
+          }
+        },
+        properties: {
+          tree: { $ref: '#/$defs/node' }
+        }
+      }
+      form.data = { tree: { name: 'root', children: [{ name: 'leaf' }] } }
+      await nextTick()
+      
+      expect(form.querySelector('input[name="tree.children[0].name"]').value).toBe('leaf')
+      expect(form.querySelectorAll('.schema-lazy').length).toBe(2)
+      expect(form.getData()).toEqual({ tree: { name: 'root', children: [{ name: 'leaf' }] } })
+      
+      // Expanding a lazy reference renders one more level, no further
+      const lazyAdd = form.querySelector('.schema-lazy[data-path="tree.next"] .schema-lazy-add')
+      lazyAdd.click()
+      expect(form.querySelector('input[name="tree.next.name"]')).not.toBeNull()
+      expect(form.querySelector('.schema-lazy[data-path="tree.next.next"]')).not.toBeNull()
+      
+      form.remove()
+    })
+
+    test('resolves external refs through refResolver', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.refResolver = mapResolver({
+        'common.json': {
+          $defs: {
+            money: { type: 'number', minimum: 0, title: 'Amount' },
+            price: { type: 'object', properties: { amount: { $ref: '#/$defs/money' } } }
+          }
+        }
+      })
+      form.schema = {
+        type: 'object',
+        properties: {
+          price: { $ref: 'common.json#/$defs/price' },
+          missing: { $ref: 'nowhere.json#/$defs/thing' }
+        }
+      }
+      await nextTick()
+      
+      const amountInput = form.querySelector('input[name="price.amount"]')
+      expect(amountInput).not.toBeNull()
+      expect(amountInput.min).toBe('0')
+      expect(form.querySelector('.schema-unresolved').textContent).toContain('nowhere.json')
+      
+      form.remove()
+    })
+  })
+
+  describe('validate()', () => {
+    test('returns errors keyed by data-path and renders them inline', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          quantity: { type: 'integer', multipleOf: 5 },
+          lines: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['sku'],
+              properties: { sku: { type: 'string' } }
+            }
+          }
+        }
+      }
+      form.data = { name: '', quantity: 7, lines: [{ sku: '' }] }
+      await nextTick()
+      
+      const result = form.validate()
+      expect(result.valid).toBe(false)
+      expect(Object.keys(result.errors).sort()).toEqual(['lines[0].sku', 'name', 'quantity'])
+      expect(result.errors.quantity[0].keyword).toBe('multipleOf')
+      
+      const quantityInput = form.querySelector('input[name="quantity"]')
+      const quantityField = quantityInput.closest('.schema-field')
+      expect(quantityField.querySelector('.schema-error').textContent).toBe('Must be a multiple of 5')
+      expect(quantityInput.getAttribute('aria-invalid')).toBe('true')
+      expect(form.querySelectorAll('.schema-error').length).toBe(3)
+      
+      form.remove()
+    })
+
+    test('editing a field clears its errors and a passing validate clears the rest', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          code: { type: 'string', minLength: 3 },
+          count: { type: 'number', minimum: 1 }
+        }
+      }
+      form.data = { code: 'ab', count: 0 }
+      await nextTick()
+      
+      form.validate()
+      expect(form.querySelectorAll('.schema-error').length).toBe(2)
+      
+      const codeInput = form.querySelector('input[name="code"]')
+      codeInput.value = 'abc'
+      codeInput.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(form.querySelectorAll('.schema-error').length).toBe(1)
+      
+      form.querySelector('input[name="count"]').value = '2'
+      expect(form.validate().valid).toBe(true)
+      expect(form.querySelectorAll('.schema-error').length).toBe(0)
+      
+      form.remove()
+    })
+  })
+
+  describe('uiSchema', () => {
+    test('ui:order and ui:hidden', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          a: { type: 'string' },
+          b: { type: 'string' },
+          c: { type: 'string' },
+          id: { type: 'string' }
+        }
+      }
+      form.uiSchema = {
+        'ui:order': ['c', '*', 'a'],
+        id: { 'ui:hidden': true }
+      }
+      form.data = { a: '1', b: '2', c: '3', id: 'x-1' }
+      await nextTick()
+      
+      const names = [...form.querySelectorAll('input[data-path]')].map((el: any) => el.name)
+      expect(names).toEqual(['c', 'b', 'id', 'a'])
+      expect(form.querySelector('input[name="id"]').closest('.schema-field').hidden).toBe(true)
+      expect(form.getData().id).toBe('x-1')
+      
+      form.remove()
+    })
+
+    test('ui:layout arranges fields into sections and rows', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          first: { type: 'string' },
+          last: { type: 'string' },
+          email: { type: 'string' },
+          notes: { type: 'string' }
+        }
+      }
+      form.uiSchema = {
+        'ui:layout': [
+          { title: 'Contact', rows: [['first', 'last'], ['email']] }
+        ]
+      }
+      await nextTick()
+      
+      const section = form.querySelector('fieldset.schema-section')
+      expect(section.querySelector('legend').textContent).toBe('Contact')
+      const rows = section.querySelectorAll('.schema-row')
+      expect(rows.length).toBe(2)
+      expect(rows[0].querySelectorAll('input').length).toBe(2)
+      // fields not mentioned in the layout follow it
+      expect(section.querySelector('input[name="notes"]')).toBeNull()
+      expect(form.querySelector('input[name="notes"]')).not.toBeNull()
+      
+      form.remove()
+    })
+
+    test('widgets, placeholders and help text', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          bio: { type: 'string' },
+          secret: { type: 'string' },
+          size: { type: 'string', enum: ['S', 'M', 'L'] },
+          volume: { type: 'integer', minimum: 0, maximum: 10 },
+          tags: { type: 'array', items: { type: 'string' } }
+        }
+      }
+      form.uiSchema = {
+        bio: { 'ui:widget': 'textarea', 'ui:placeholder': 'Tell us about yourself', 'ui:help': 'Markdown is supported' },
+        secret: { 'ui:widget': 'password' },
+        size: { 'ui:widget': 'radio' },
+        volume: { 'ui:widget': 'updown' },
+        tags: { items: { 'ui:placeholder': 'tag' } }
+      }
+      form.data = { size: 'M', volume: 3, tags: ['a'] }
+      await nextTick()
+      
+      const bio = form.querySelector('textarea[name="bio"]')
+      expect(bio.getAttribute('placeholder')).toBe('Tell us about yourself')
+      expect(bio.closest('.schema-field').querySelector('.schema-help').textContent).toBe('Markdown is supported')
+      expect(form.querySelector('input[name="secret"]').type).toBe('password')
+      expect(form.querySelectorAll('input[type="radio"][name="size"]').length).toBe(3)
+      expect(form.querySelector('input[name="volume"]').type).toBe('number')
+      expect(form.querySelector('input[name="tags[0]"]').getAttribute('placeholder')).toBe('tag')
+      
+      expect(form.getData().size).toBe('M')
+      const small = form.querySelector('input[type="radio"][value="S"]')
+      small.checked = true
+      expect(form.getData().size).toBe('S')
+      
+      form.remove()
+    })
+  })
+
+  describe('custom widgets', () => {
+    // a tag editor storing string arrays as comma-separated text
+    const tagWidget = {
+      name: 'tags',
+      render: ({ elements, id }: any) => elements.input({ id, class: 'tag-input' }),
+      getValue: (el: HTMLElement) => (el as HTMLInputElement).value.split(',').map(s => s.trim()).filter(Boolean),
+      setValue: (el: HTMLElement, value: any) => { (el as HTMLInputElement).value = (value || []).join(', ') },
+    }
+
+    test('widgets are matched by x-widget, format and predicate', async () => {
+      registerWidget(tagWidget)
+      registerWidget({
+        name: 'hex-colour',
+        format: 'hex-color',
+        render: ({ elements, id }) => elements.input({ id, type: 'color' }),
+        getValue: el => (el as HTMLInputElement).value,
+        setValue: (el, value) => { (el as HTMLInputElement).value = value ?? '#000000' },
+      })
+      registerWidget({
+        name: 'stars',
+        test: schema => schema.type === 'integer' && schema['x-stars'] === true,
+        render: ({ elements }) => elements.span({ class: 'stars' }),
+        getValue: el => Number(el.dataset.stars),
+        setValue: (el, value) => { el.dataset.stars = String(value ?? 0) },
+      })
+      
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string' }, 'x-widget': 'tags' },
+          colour: { type: 'string', format: 'hex-color' },
+          rating: { type: 'integer', 'x-stars': true },
+          name: { type: 'string' }
+        }
+      }
+      form.data = { tags: ['a', 'b'], colour: '#ff0000', rating: 4, name: 'Jane' }
+      await nextTick()
+      
+      expect(form.querySelector('[data-widget="tags"]').value).toBe('a, b')
+      expect(form.querySelector('[data-widget="hex-colour"]').type).toBe('color')
+      expect(form.querySelector('[data-widget="stars"]').dataset.path).toBe('rating')
+      expect(form.querySelector('[data-widget="tags"] input[data-path]')).toBeNull()
+      expect(form.getData()).toEqual({ tags: ['a', 'b'], colour: '#ff0000', rating: 4, name: 'Jane' })
+      
+      form.remove()
+      unregisterWidget('tags')
+      unregisterWidget('hex-colour')
+      unregisterWidget('stars')
+    })
+
+    test('widget input events reach schema-input', async () => {
+      registerWidget(tagWidget)
+      
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string' } } }
+      }
+      form.uiSchema = { tags: { 'ui:widget': 'tags' } }
+      await nextTick()
+      
+      let received: any
+      form.addEventListener('schema-input', (e: CustomEvent) => { received = e.detail.data })
+      const tagInput = form.querySelector('.tag-input')
+      tagInput.value = 'x, y'
+      tagInput.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(received).toEqual({ tags: ['x', 'y'] })
+      
+      form.remove()
+      unregisterWidget('tags')
+    })
+
+    test('an explicit ui:widget wins over format and predicate matches', async () => {
+      registerWidget({
+        name: 'rich-text',
+        format: 'markdown',
+        test: schema => schema.type === 'string' && schema.maxLength === 5000,
+        render: ({ elements, id }) => elements.div({ id, class: 'rich-text' }),
+        getValue: el => el.textContent,
+        setValue: (el, value) => { el.textContent = value ?? '' },
+      })
+      
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          body: { type: 'string', format: 'markdown' },
+          notes: { type: 'string', maxLength: 5000 },
+          summary: { type: 'string', format: 'markdown' }
+        }
+      }
+      form.uiSchema = { body: { 'ui:widget': 'textarea' }, notes: { 'ui:widget': 'textarea' } }
+      form.data = { body: 'Hello', notes: 'Later', summary: 'Short' }
+      await nextTick()
+      
+      expect(form.querySelector('textarea[name="body"]').value).toBe('Hello')
+      expect(form.querySelector('textarea[name="notes"]').value).toBe('Later')
+      expect(form.querySelector('[data-widget="rich-text"]').dataset.path).toBe('summary')
+      expect(form.getData()).toEqual({ body: 'Hello', notes: 'Later', summary: 'Short' })
+      
+      form.remove()
+      unregisterWidget('rich-text')
+    })
+  })
+
+  describe('allOf', () => {
+    test('renders merged members and reports conflicts', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        $defs: {
+          entity: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] }
+        },
+        type: 'object',
+        properties: {
+          person: {
+            title: 'Person',
+            allOf: [
+              { $ref: '#/$defs/entity' },
+              { properties: { name: { type: 'string' }, age: { type: 'integer', maximum: 150 } } },
+              { properties: { age: { type: 'string' } } }
+            ]
+          }
+        }
+      }
+      form.data = { person: { id: 'p1', name: 'Jane', age: 30 } }
+      await nextTick()
+      
+      const fieldset = form.querySelector('fieldset[data-path="person"]')
+      expect(fieldset.querySelector('legend').textContent).toBe('Person')
+      expect(form.querySelector('input[name="person.id"]').required).toBe(true)
+      expect(form.querySelector('input[name="person.name"]').value).toBe('Jane')
+      expect(fieldset.querySelector(':scope > .schema-conflict').textContent)
+        .toBe('Schema conflict: age: type "integer" conflicts with "string"')
+      expect(form.getData()).toEqual({ person: { id: 'p1', name: 'Jane', age: 30 } })
+      
+      form.remove()
+    })
+
+    test('allOf with a union member renders a variant selector', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        allOf: [
+          { type: 'object', properties: { name: { type: 'string' } } },
+          {
+            oneOf: [
+              { title: 'Cat', properties: { indoor: { type: 'boolean' } } },
+              { title: 'Dog', properties: { breed: { type: 'string' } } }
+            ]
+          }
+        ]
+      }
+      await nextTick()
+      
+      const options = [...form.querySelectorAll('.schema-union-selector option')].map((o: any) => o.textContent)
+      expect(options).toEqual(['Cat', 'Dog'])
+      expect(form.querySelector('input[name="data.name"]')).not.toBeNull()
+      
+      form.remove()
+    })
+  })
+
+  describe('conditional fields', () => {
+    test('if/then adds fields live and keeps typed values', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = { customer: { firstName: 'Ann', customerType: 'personal' } }
+      await nextTick()
+      
+      expect(form.querySelector('input[name="customer.company"]')).toBeNull()
+      const firstName = form.querySelector('input[name="customer.firstName"]')
+      
+      const typeSelect = form.querySelector('select[name="customer.customerType"]')
+      typeSelect.value = 'business'
+      typeSelect.dispatchEvent(new Event('change', { bubbles: true }))
+      
+      const company = form.querySelector('input[name="customer.company"]')
+      expect(company.required).toBe(true)
+      expect(form.querySelector('input[name="customer.taxId"]').required).toBe(true)
+      // fields that stay are the same elements, with their values intact
+      expect(form.querySelector('input[name="customer.firstName"]')).toBe(firstName)
+      expect(firstName.value).toBe('Ann')
+      
+      company.value = 'Acme'
+      typeSelect.value = 'personal'
+      typeSelect.dispatchEvent(new Event('change', { bubbles: true }))
+      expect(form.querySelector('input[name="customer.company"]')).toBeNull()
+      expect(form.getData().customer.company).toBeUndefined()
+      
+      form.remove()
+    })
+
+    test('sample order data renders its business fields', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = orderSampleData
+      await nextTick()
+      
+      expect(form.querySelector('input[name="customer.taxId"]').value).toBe('US123456789')
+      
+      form.remove()
+    })
+
+    test('dependentRequired toggles required in place', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          creditCard: { type: 'string' },
+          billingAddress: { type: 'string' }
+        },
+        dependentRequired: { creditCard: ['billingAddress'] }
+      }
+      await nextTick()
+      
+      const billing = form.querySelector('input[name="billingAddress"]')
+      expect(billing.required).toBe(false)
+      
+      const card = form.querySelector('input[name="creditCard"]')
+      card.value = '4111'
+      card.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(form.querySelector('input[name="billingAddress"]')).toBe(billing)
+      expect(billing.required).toBe(true)
+      expect(billing.closest('.schema-field').querySelector('label .required')).not.toBeNull()
+      
+      card.value = ''
+      card.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(billing.required).toBe(false)
+      expect(billing.closest('.schema-field').querySelector('label .required')).toBeNull()
+      
+      form.remove()
+    })
+  })
+
+  describe('key/value maps', () => {
+    test('additionalProperties round-trips as key/value entries', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          headers: {
+            type: 'object',
+            title: 'Headers',
+            additionalProperties: { type: 'string' }
+          },
+          limits: {
+            type: 'object',
+            properties: { total: { type: 'integer' } },
+            additionalProperties: { type: 'integer' }
+          }
+        }
+      }
+      form.data = {
+        headers: { 'Content-Type': 'text/html', 'x.custom': 'yes' },
+        limits: { total: 10, daily: 2 }
+      }
+      await nextTick()
+      
+      const keys = [...form.querySelectorAll('.schema-map-key')].map((el: any) => el.value)
+      expect(keys).toEqual(['Content-Type', 'x.custom', 'daily'])
+      expect(form.getData()).toEqual({
+        headers: { 'Content-Type': 'text/html', 'x.custom': 'yes' },
+        limits: { total: 10, daily: 2 }
+      })
+      
+      form.remove()
+    })
+
+    test('unconstrained values keep nested objects, arrays and nulls', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      const data = { meta: { a: 'x', nested: { b: 1, deeper: { c: [true] } }, list: [1, 'two', { d: null }], nil: null } }
+      
+      form.schema = { type: 'object', properties: { meta: { type: 'object', additionalProperties: true } } }
+      form.data = data
+      await nextTick()
+      
+      expect(form.textContent).not.toContain('Object without properties')
+      expect(form.getData()).toEqual(data)
+      
+      form.remove()
+    })
+
+    test('invalid patternProperties keys match nothing rather than throwing', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          meta: { type: 'object', patternProperties: { '[': { type: 'number' }, '^n_': { type: 'integer' } } }
+        }
+      }
+      form.data = { meta: { n_1: 4 } }
+      await nextTick()
+      
+      expect(form.querySelector('input[name="meta.n_1"]').type).toBe('number')
+      expect(form.getData()).toEqual({ meta: { n_1: 4 } })
+      expect(form.validate().valid).toBe(true)
+      
+      form.remove()
+    })
+
+    test('renaming, adding and removing entries', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          meta: { type: 'object', additionalProperties: { type: 'string' } }
+        }
+      }
+      form.data = { meta: { a: '1' } }
+      await nextTick()
+      
+      const keyInput = form.querySelector('.schema-map-key')
+      keyInput.value = 'b'
+      keyInput.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(form.getData()).toEqual({ meta: { b: '1' } })
+      
+      form.querySelector('.schema-map-add').click()
+      // an entry without a key contributes nothing
+      expect(form.getData()).toEqual({ meta: { b: '1' } })
+      const newKey = form.querySelectorAll('.schema-map-key')[1]
+      expect(newKey.validationMessage).toBe('Key is required')
+      newKey.value = 'c'
+      newKey.dispatchEvent(new Event('input', { bubbles: true }))
+      form.querySelector('input[name="meta.c"]').value = '2'
+      expect(form.getData()).toEqual({ meta: { b: '1', c: '2' } })
+      
+      form.querySelector('.schema-map-remove').click()
+      expect(form.getData()).toEqual({ meta: { c: '2' } })
+      
+      form.remove()
+    })
+
+    test('patternProperties choose the value editor and keys are validated', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          translations: {
+            type: 'object',
+            patternProperties: {
+              '^[a-z]{2}$': { type: 'string' },
+              '^count_': { type: 'integer' }
+            },
+            additionalProperties: false,
+            propertyNames: { maxLength: 8 }
+          }
+        }
+      }
+      form.data = { translations: { en: 'Hello', count_words: 3 } }
+      await nextTick()
+      
+      expect(form.querySelector('input[name="translations.count_words"]').type).toBe('number')
+      expect(form.getData()).toEqual({ translations: { en: 'Hello', count_words: 3 } })
+      
+      const [enKey, countKey] = form.querySelectorAll('.schema-map-key')
+      countKey.value = 'en'
+      countKey.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(countKey.validationMessage).toBe('Duplicate key')
+      
+      enKey.value = 'english'
+      enKey.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(enKey.validationMessage).toBe('Key must match ^[a-z]{2}$ or ^count_')
+      expect(countKey.validationMessage).toBe('')
+      
+      countKey.value = 'count_too_long'
+      countKey.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(countKey.validationMessage).toMatch(/at most 8/)
+      
+      form.remove()
+    })
+  })
+
+  describe('tuples', () => {
+    test('prefixItems render positional editors without add/remove', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          location: {
+            type: 'array',
+            title: 'Location',
+            prefixItems: [
+              { type: 'number', title: 'Latitude' },
+              { type: 'number', title: 'Longitude' }
+            ],
+            items: false
+          }
+        }
+      }
+      form.data = { location: [51.5, -0.12] }
+      await nextTick()
+      
+      const labels = [...form.querySelectorAll('.schema-tuple-items label')].map((el: any) => el.textContent)
+      expect(labels).toEqual(['Latitude', 'Longitude'])
+      expect(form.querySelector('.schema-array-add')).toBeNull()
+      expect(form.querySelector('.schema-array-remove')).toBeNull()
+      expect(form.getData()).toEqual({ location: [51.5, -0.12] })
+      
+      form.remove()
+    })
+
+    test('variadic items follow the tuple positions', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          range: {
+            type: 'array',
+            items: [{ type: 'integer', title: 'Start' }, { type: 'integer', title: 'End' }],
+            additionalItems: { type: 'string', title: 'Label' }
+          }
+        }
+      }
+      form.data = { range: [1, 5, 'a'] }
+      await nextTick()
+      
+      expect(form.querySelector('.schema-array-item input').name).toBe('range[2]')
+      form.querySelector('.schema-array-add').click()
+      form.querySelector('input[name="range[3]"]').value = 'b'
+      expect(form.getData()).toEqual({ range: [1, 5, 'a', 'b'] })
+      
+      form.querySelector('.schema-array-remove').click()
+      expect(form.getData()).toEqual({ range: [1, 5, 'b'] })
+      
+      form.remove()
+    })
+
+    test('tuple defaults and variant detection', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          segments: {
+            type: 'array',
+            items: {
+              type: 'array',
+              prefixItems: [{ type: 'integer' }, { type: 'integer' }],
+              items: false
+            }
+          },
+          value: {
+            anyOf: [
+              { type: 'array', title: 'Pair', prefixItems: [{ type: 'string' }, { type: 'number' }], items: false },
+              { type: 'array', title: 'Names', items: { type: 'string' } }
+            ]
+          }
+        }
+      }
+      form.data = { value: ['a', 'b'] }
+      await nextTick()
+      
+      expect(form.querySelector('.schema-union-selector').value).toBe('1')
+      
+      form.querySelector('.schema-array-add').click()
+      expect(form.getData().segments).toEqual([[0, 0]])
+      
+      form.remove()
+    })
+
+    test('unconstrained tail items keep objects, arrays and nulls', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      const data = { point: [1, { label: 'peak', tags: ['a'] }, [2, [3]], null] }
+      
+      form.schema = {
+        type: 'object',
+        properties: { point: { type: 'array', prefixItems: [{ type: 'number' }], items: {} } }
+      }
+      form.data = data
+      await nextTick()
+      
+      expect(form.getData()).toEqual(data)
+      
+      form.remove()
+    })
+  })
+
+  describe('nullable and multi-type fields', () => {
+    test('nullable fields distinguish null from an empty string', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          nickname: { type: ['string', 'null'] },
+          middleName: { type: ['string', 'null'] },
+          score: { type: ['integer', 'null'] }
+        }
+      }
+      form.data = { nickname: null, middleName: '', score: 3 }
+      await nextTick()
+      
+      const toggles = form.querySelectorAll('.schema-null-toggle')
+      expect(toggles.length).toBe(3)
+      expect(toggles[0].checked).toBe(true)
+      expect(form.querySelector('input[name="nickname"]').closest('fieldset').disabled).toBe(true)
+      expect(form.getData()).toEqual({ nickname: null, middleName: '', score: 3 })
+      
+      toggles[0].checked = false
+      toggles[0].dispatchEvent(new Event('change', { bubbles: true }))
+      toggles[2].checked = true
+      toggles[2].dispatchEvent(new Event('change', { bubbles: true }))
+      expect(form.getData()).toEqual({ nickname: '', middleName: '', score: null })
+      
+      form.remove()
+    })
+
+    test('several non-null types get a type switcher', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          id: { type: ['number', 'string'], title: 'ID' }
+        }
+      }
+      form.data = { id: 'abc' }
+      await nextTick()
+      
+      const selector = form.querySelector('.schema-union-selector')
+      expect([...selector.options].map((o: any) => o.textContent)).toEqual(['Number', 'String'])
+      expect(selector.value).toBe('1')
+      expect(form.getData()).toEqual({ id: 'abc' })
+      
+      selector.value = '0'
+      selector.dispatchEvent(new Event('change', { bubbles: true }))
+      form.querySelector('input[name="id"]').value = '42'
+      expect(form.getData()).toEqual({ id: 42 })
+      
+      form.remove()
+    })
+
+    test('null union variants round-trip null', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          parent: { anyOf: [{ type: 'string', title: 'Name' }, { type: 'null', title: 'None' }] }
+        }
+      }
+      form.data = { parent: null }
+      await nextTick()
+      
+      expect(form.querySelector('.schema-union-selector').value).toBe('1')
+      expect(form.getData()).toEqual({ parent: null })
+      
+      form.remove()
+    })
+  })
+
+  describe('typed enums', () => {
+    test('enum and const-union selects return their typed values', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          level: { type: 'integer', enum: [1, 2, 3] },
+          flag: { enum: [true, false] },
+          mixed: { enum: [1, '1', null, { a: 1 }] },
+          parent: { anyOf: [{ const: null, title: 'None' }, { const: 'root', title: 'Root' }] },
+          size: { type: 'string', enum: ['S', 'M'] }
+        }
+      }
+      form.data = { level: 2, flag: false, mixed: '1', parent: null, size: 'M' }
+      await nextTick()
+      
+      expect(form.getData()).toEqual({ level: 2, flag: false, mixed: '1', parent: null, size: 'M' })
+      
+      const mixed = form.querySelector('select[name="mixed"]')
+      expect([...mixed.options].map((o: any) => o.textContent)).toEqual(['-- Select --', '1', '1', 'null', '{"a":1}'])
+      mixed.selectedIndex = 4
+      expect(form.getData().mixed).toEqual({ a: 1 })
+      
+      // nothing chosen leaves typed values out rather than returning ''
+      form.querySelector('select[name="level"]').selectedIndex = 0
+      expect('level' in form.getData()).toBe(false)
+      
+      form.remove()
+    })
+
+    test('x-enumNames and typed radio buttons', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          priority: { type: 'integer', enum: [1, 2, 3], 'x-enumNames': ['Low', 'Medium', 'High'] }
+        }
+      }
+      form.uiSchema = { priority: { 'ui:widget': 'radio' } }
+      form.data = { priority: 3 }
+      await nextTick()
+      
+      const labels = [...form.querySelectorAll('.schema-field-radio label')].map((el: any) => el.textContent.trim())
+      expect(labels).toEqual(['Low', 'Medium', 'High'])
+      expect(form.getData()).toEqual({ priority: 3 })
+      
+      form.querySelector('input[type="radio"][value="1"]').checked = true
+      expect(form.getData()).toEqual({ priority: 1 })
+      
+      form.remove()
+    })
+  })
+
+  describe('state binding', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }] }
+      }
+    }
+
+    test('shows the state and writes edits back to it', async () => {
+      const state = xin as any
+      state.bindEdit = { order: { name: 'Ada', tags: ['a'], id: 'x1', internal: 42 } }
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = schema
+      form.statePath = 'bindEdit.order'
+      await nextTick()
+      
+      const name = form.querySelector('input[name="name"]')
+      expect(name.value).toBe('Ada')
+      name.value = 'Grace'
+      name.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(state['bindEdit.order.name']).toBe('Grace')
+      
+      form.querySelector('.schema-array-add').click()
+      expect(state['bindEdit.order.tags'].length).toBe(2)
+      // keys the form doesn't show are left alone
+      expect(state['bindEdit.order.internal']).toBe(42)
+      
+      form.remove()
+    })
+
+    test('patches changes made to the state without re-rendering', async () => {
+      const state = xin as any
+      state.bindPatch = { name: 'Ada', tags: ['a'], id: 'x1' }
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = schema
+      form.statePath = boxed.bindPatch
+      await nextTick()
+      
+      const name = form.querySelector('input[name="name"]')
+      state['bindPatch.name'] = 'Linus'
+      await updates()
+      expect(form.querySelector('input[name="name"]')).toBe(name)
+      expect(name.value).toBe('Linus')
+      
+      // structural changes re-render just the affected field
+      state['bindPatch.tags'] = ['a', 'b', 'c']
+      state['bindPatch.id'] = 7
+      await updates()
+      expect(form.querySelector('input[name="name"]')).toBe(name)
+      expect(form.querySelectorAll('.schema-array-item').length).toBe(3)
+      expect(form.getData()).toEqual({ name: 'Linus', tags: ['a', 'b', 'c'], id: 7 })
+      
+      form.remove()
+    })
+
+    test('stops observing while disconnected', async () => {
+      const state = xin as any
+      state.bindDetached = { name: 'Ada' }
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = schema
+      form.statePath = 'bindDetached'
+      await nextTick()
+      form.remove()
+      
+      state['bindDetached.name'] = 'Grace'
+      await updates()
+      expect(form.querySelector('input[name="name"]').value).toBe('Ada')
+    })
+  })
+
+  describe('incremental updates', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        status: { type: 'string', enum: ['pending', 'shipped'] },
+        note: { type: 'string', default: 'none' },
+        tags: { type: 'array', items: { type: 'string' } }
+      }
+    }
+
+    test('data that does not fit its fields renders the form afresh', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { name: { type: 'string' } } }
+      form.data = { name: 5 }
+      await nextTick()
+      
+      form.data = { name: 6 }
+      expect(form.querySelector('input[name="name"]').value).toBe('6')
+      form.schema = { type: 'object', properties: { name: { type: 'string', title: 'Name' } } }
+      await nextTick()
+      expect(form.querySelectorAll('form').length).toBe(1)
+      expect(form.querySelector('input[name="name"]').value).toBe('6')
+      
+      form.remove()
+    })
+
+    test('assigning data updates inputs in place', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = schema
+      form.data = { name: 'Ada', status: 'shipped', tags: ['a'] }
+      await nextTick()
+      
+      const name = form.querySelector('input[name="name"]')
+      const tagsField = form.querySelector('fieldset[data-path="tags"]')
+      name.focus()
+      
+      form.data = { name: 'Grace', status: 'shipped', note: 'fragile', tags: ['a'] }
+      expect(form.querySelector('input[name="name"]')).toBe(name)
+      expect(name.value).toBe('Grace')
+      expect(document.activeElement).toBe(name)
+      expect(form.querySelector('fieldset[data-path="tags"]')).toBe(tagsField)
+      
+      // a new array item re-renders the array, and a missing value shows its default again
+      form.data = { name: 'Grace', status: 'pending', tags: ['a', 'b'] }
+      expect(form.querySelector('input[name="name"]')).toBe(name)
+      expect(form.querySelectorAll('.schema-array-item').length).toBe(2)
+      expect(form.getData()).toEqual({ name: 'Grace', status: 'pending', note: 'none', tags: ['a', 'b'] })
+      
+      form.remove()
+    })
+
+    test('a schema change keeps unchanged fields and their edits', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = schema
+      form.data = { name: 'Ada' }
+      await nextTick()
+      
+      const name = form.querySelector('input[name="name"]')
+      const status = form.querySelector('select[name="status"]')
+      name.value = 'Typed'
+      name.dispatchEvent(new Event('input', { bubbles: true }))
+      
+      form.schema = {
+        ...schema,
+        properties: { ...schema.properties, status: { type: 'string', enum: ['pending', 'shipped', 'lost'] } }
+      }
+      await nextTick()
+      
+      expect(form.querySelector('input[name="name"]')).toBe(name)
+      expect(name.value).toBe('Typed')
+      expect(form.querySelector('select[name="status"]')).not.toBe(status)
+      expect(form.querySelector('select[name="status"]').options.length).toBe(4)
+      
+      form.remove()
+    })
+
+    test('data assigned with a schema change replaces edits', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = schema
+      form.data = { name: 'Ada' }
+      await nextTick()
+      
+      const name = form.querySelector('input[name="name"]')
+      name.value = 'Typed'
+      form.schema = { ...schema }
+      form.data = { name: 'Loaded' }
+      await nextTick()
+      
+      expect(form.querySelector('input[name="name"]')).toBe(name)
+      expect(name.value).toBe('Loaded')
+      
+      form.remove()
+    })
+  })
+
+  describe('change events', () => {
+    const listen = (form: any) => {
+      const patches: any[] = []
+      form.addEventListener('schema-change', (event: any) => patches.push(event.detail.patch))
+      return patches
+    }
+
+    test('text edits are reported as replace operations with previous values', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = orderSampleData
+      await nextTick()
+      const patches = listen(form)
+      
+      const email = form.querySelector('input[name="customer.email"]')
+      email.value = 'new@example.com'
+      email.dispatchEvent(new Event('input', { bubbles: true }))
+      
+      expect(patches).toEqual([[
+        { op: 'replace', path: '/customer/email', value: 'new@example.com', previous: orderSampleData.customer.email }
+      ]])
+      expect(form.data.customer.email).toBe('new@example.com')
+      
+      form.remove()
+    })
+
+    test('emptying a number field is reported as one remove', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { n: { type: 'number' } } }
+      form.data = { n: 3 }
+      await nextTick()
+      const patches = listen(form)
+      
+      const n = form.querySelector('input[name="n"]')
+      n.value = ''
+      n.dispatchEvent(new Event('input', { bubbles: true }))
+      
+      expect(patches).toEqual([[{ op: 'remove', path: '/n', previous: 3 }]])
+      
+      form.remove()
+    })
+
+    test('array add and remove buttons report add and remove operations', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string', default: 'new' } } }
+      }
+      form.data = { tags: ['a', 'b', 'c'] }
+      await nextTick()
+      const patches = listen(form)
+      
+      form.querySelector('.schema-array-remove').click()
+      form.querySelector('.schema-array-add').click()
+      
+      expect(patches).toEqual([
+        [{ op: 'remove', path: '/tags/0', previous: 'a' }],
+        [{ op: 'add', path: '/tags/2', value: 'new' }],
+      ])
+      expect(form.data).toEqual({ tags: ['b', 'c', 'new'] })
+      
+      form.remove()
+    })
+
+    test('switching a union variant replaces its value', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          'a/b': {
+            oneOf: [
+              { type: 'object', title: 'Text', properties: { text: { type: 'string' } } },
+              { type: 'object', title: 'Number', properties: { count: { type: 'number', default: 1 } } }
+            ]
+          }
+        }
+      }
+      form.data = { 'a/b': { text: 'hi' } }
+      await nextTick()
+      const patches = listen(form)
+      
+      const selector = form.querySelector('.schema-union-selector')
+      selector.value = '1'
+      selector.dispatchEvent(new Event('change', { bubbles: true }))
+      
+      expect(patches).toEqual([
+        [{ op: 'replace', path: '/a~1b', value: { count: 1 }, previous: { text: 'hi' } }],
+      ])
+      
+      form.remove()
+    })
+
+    test('assigning data does not report changes', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { name: { type: 'string' } } }
+      form.data = { name: 'Ada' }
+      await nextTick()
+      const patches = listen(form)
+      
+      form.data = { name: 'Grace' }
+      expect(patches).toEqual([])
+      
+      form.remove()
+    })
+  })
+
+  describe('applyPatch', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } }
+      }
+    }
+
+    test('adds and removes array items in place', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = schema
+      form.data = { name: 'Ada', tags: ['a', 'b', 'c'] }
+      await nextTick()
+      
+      const tagsField = form.querySelector('fieldset[data-path="tags"]')
+      const first = form.querySelector('input[name="tags[0]"]')
+      // typed but not yet reported
+      form.querySelector('input[name="name"]').value = 'Typing'
+      
+      form.applyPatch([
+        { op: 'add', path: '/tags/1', value: 'x' },
+        { op: 'remove', path: '/tags/3' },
+      ])
+      
+      expect(form.querySelector('fieldset[data-path="tags"]')).toBe(tagsField)
+      expect(form.querySelector('input[name="tags[0]"]')).toBe(first)
+      expect([...form.querySelectorAll('.schema-array-item')].map((el: any) => el.dataset.index)).toEqual(['0', '1', '2'])
+      expect(form.getData()).toEqual({ name: 'Typing', tags: ['a', 'x', 'b'] })
+      
+      form.applyPatch([{ op: 'move', from: '/tags/0', path: '/tags/-' }])
+      expect(form.getData().tags).toEqual(['x', 'b', 'a'])
+      
+      form.remove()
+    })
+
+    test('sets a value by data-path', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = orderSampleData
+      await nextTick()
+      
+      const email = form.querySelector('input[name="customer.email"]')
+      form.applyPatch('customer.email', 'ada@example.com')
+      form.applyPatch('items[0].quantity', 7)
+      
+      expect(form.querySelector('input[name="customer.email"]')).toBe(email)
+      expect(email.value).toBe('ada@example.com')
+      expect(form.getData().items[0].quantity).toBe(7)
+      expect(form.data.customer.email).toBe('ada@example.com')
+      
+      form.remove()
+    })
+  })
+
+  describe('undo and redo', () => {
+    const type = (input: any, value: string) => {
+      input.value = value
+      input.dispatchEvent(new Event('input', { bubbles: true }))
+    }
+
+    test('typing in a field undoes as one step', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { name: { type: 'string' }, note: { type: 'string' } } }
+      form.data = { name: '', note: '' }
+      await nextTick()
+      const history: any[] = []
+      form.addEventListener('schema-history', (event: any) => history.push(event.detail))
+      
+      const name = form.querySelector('input[name="name"]')
+      type(name, 'A')
+      type(name, 'Ad')
+      type(name, 'Ada')
+      type(form.querySelector('input[name="note"]'), 'x')
+      expect(form.canUndo).toBe(true)
+      
+      expect(form.undo()).toBe(true)
+      expect(form.getData()).toEqual({ name: 'Ada', note: '' })
+      form.undo()
+      expect(form.getData()).toEqual({ name: '', note: '' })
+      expect(form.querySelector('input[name="name"]')).toBe(name)
+      expect(form.canUndo).toBe(false)
+      expect(form.undo()).toBe(false)
+      
+      form.redo()
+      expect(form.getData()).toEqual({ name: 'Ada', note: '' })
+      expect(history[history.length - 1]).toEqual({ canUndo: true, canRedo: true })
+      
+      form.remove()
+    })
+
+    test('restores a removed array item and reverts a variant switch', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = contentBuilderSchema
+      form.data = contentBuilderSampleData
+      await nextTick()
+      const patches: any[] = []
+      form.addEventListener('schema-change', (event: any) => patches.push(event.detail.patch))
+      
+      const before = form.getData()
+      form.querySelector('.schema-array-item .schema-array-remove').click()
+      expect(form.getData().blocks.length).toBe(before.blocks.length - 1)
+      
+      form.undo()
+      expect(form.getData()).toEqual(before)
+      expect(patches[1]).toEqual([{ op: 'add', path: '/blocks/0', value: before.blocks[0] }])
+      expect(form.querySelector('.schema-array-item').dataset.variant).toBe('0')
+      
+      const selector = form.querySelector('.schema-union-selector[data-path="settings.headerStyle"]')
+      selector.value = '0'
+      selector.dispatchEvent(new Event('change', { bubbles: true }))
+      expect(form.getData()).not.toEqual(before)
+      form.undo()
+      expect(form.getData()).toEqual(before)
+      
+      form.remove()
+    })
+
+    test('Ctrl+Z and Shift+Ctrl+Z within the form', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { done: { type: 'boolean' } } }
+      form.data = { done: false }
+      await nextTick()
+      
+      const checkbox = form.querySelector('input[name="done"]')
+      checkbox.click()
+      expect(form.getData()).toEqual({ done: true })
+      
+      const key = (init: KeyboardEventInit) =>
+        checkbox.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', bubbles: true, cancelable: true, ...init }))
+      key({ ctrlKey: true })
+      expect(form.getData()).toEqual({ done: false })
+      key({ metaKey: true, shiftKey: true })
+      expect(form.getData()).toEqual({ done: true })
+      
+      form.remove()
+    })
+  })
+
+  describe('reordering array items', () => {
+    const listSchema = {
+      type: 'object',
+      properties: {
+        groups: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              tags: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+    }
+    const listData = {
+      groups: [
+        { name: 'a', tags: ['a1', 'a2'] },
+        { name: 'b', tags: ['b1'] },
+        { name: 'c', tags: ['c1'] },
+      ],
+    }
+    const topItems = (form: any) => [...form.querySelectorAll('.schema-array-items[data-path="groups"] > .schema-array-item')] as any[]
+
+    test('move buttons emit a single move and keep nested paths in step', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = listSchema
+      form.data = listData
+      await nextTick()
+      const patches: any[] = []
+      form.addEventListener('schema-change', (event: any) => patches.push(event.detail.patch))
+      
+      topItems(form)[2].querySelector(':scope > .schema-array-actions > .schema-array-reorder > .schema-array-move-up').click()
+      expect(patches).toEqual([[{ op: 'move', from: '/groups/2', path: '/groups/1' }]])
+      expect(form.getData().groups.map((group: any) => group.name)).toEqual(['a', 'c', 'b'])
+      
+      topItems(form)[0].querySelector(':scope > .schema-array-actions > .schema-array-reorder > .schema-array-move-down').click()
+      expect(form.getData().groups.map((group: any) => group.name)).toEqual(['c', 'a', 'b'])
+      expect(form.querySelector('input[name="groups[1].tags[1]"]').value).toBe('a2')
+      expect(form.querySelector('input[name="groups[2].tags[0]"]').value).toBe('b1')
+      expect(form.querySelector('.schema-array-items[data-path="groups[1].tags"]')).toBeTruthy()
+      
+      // editing a nested item after the move writes to the right place
+      const tag = form.querySelector('input[name="groups[1].tags[1]"]')
+      tag.value = 'a3'
+      tag.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(form.getData().groups[1]).toEqual({ name: 'a', tags: ['a1', 'a3'] })
+      
+      form.remove()
+    })
+
+    test('Alt+Arrow keys move the focused item, and undo moves it back', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = listSchema
+      form.data = listData
+      await nextTick()
+      
+      const name = form.querySelector('input[name="groups[0].name"]')
+      name.focus()
+      name.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', altKey: true, bubbles: true, cancelable: true }))
+      expect(form.getData().groups.map((group: any) => group.name)).toEqual(['b', 'a', 'c'])
+      expect(name.getAttribute('name')).toBe('groups[1].name')
+      expect(document.activeElement).toBe(name)
+      
+      // the innermost item moves, not the one it's in
+      const tag = form.querySelector('input[name="groups[1].tags[0]"]')
+      tag.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', altKey: true, bubbles: true, cancelable: true }))
+      expect(form.getData().groups[1]).toEqual({ name: 'a', tags: ['a2', 'a1'] })
+      
+      form.undo()
+      form.undo()
+      expect(form.getData()).toEqual(listData)
+      expect(topItems(form)[0].querySelector('input[name="groups[0].name"]').value).toBe('a')
+      
+      form.remove()
+    })
+
+    test('applyPatch moves items in place', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = listSchema
+      form.data = listData
+      await nextTick()
+      
+      const item = topItems(form)[0]
+      form.applyPatch([{ op: 'move', from: '/groups/0', path: '/groups/2' }])
+      expect(form.getData().groups.map((group: any) => group.name)).toEqual(['b', 'c', 'a'])
+      expect(topItems(form)[2]).toBe(item)
+      expect(item.querySelector('input[name="groups[2].name"]').value).toBe('a')
+      
+      form.remove()
+    })
+
+    test('drag and drop by the handle', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = listSchema
+      form.data = listData
+      await nextTick()
+      
+      const [first, , last] = topItems(form)
+      first.querySelector(':scope > .schema-array-actions > .schema-array-reorder > .schema-array-drag')
+        .dispatchEvent(new Event('pointerdown', { bubbles: true }))
+      first.dispatchEvent(new Event('dragstart', { bubbles: true }))
+      last.dispatchEvent(new Event('dragover', { bubbles: true, cancelable: true }))
+      last.dispatchEvent(new Event('drop', { bubbles: true, cancelable: true }))
+      first.dispatchEvent(new Event('dragend', { bubbles: true }))
+      expect(form.getData().groups.map((group: any) => group.name)).toEqual(['b', 'c', 'a'])
+      expect(first.hasAttribute('draggable')).toBe(false)
+      
+      form.remove()
+    })
+
+    test('x-reorderable: false leaves out the reorder controls', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string' }, 'x-reorderable': false } },
+      }
+      form.data = { tags: ['a', 'b'] }
+      await nextTick()
+      
+      expect(form.querySelector('.schema-array-reorder')).toBeNull()
+      const input = form.querySelector('input[name="tags[0]"]')
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', altKey: true, bubbles: true }))
+      expect(form.getData()).toEqual({ tags: ['a', 'b'] })
+      
+      form.remove()
+    })
+  })
+
+  describe('duplicating, copying and pasting array items', () => {
+    const lineSchema = {
+      type: 'object',
+      properties: {
+        sku: { type: 'string' },
+        options: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['sku'],
+    }
+    const ordersSchema = {
+      type: 'object',
+      properties: {
+        lines: { type: 'array', items: lineSchema },
+        saved: { type: 'array', items: lineSchema },
+        notes: { type: 'array', items: { type: 'string' } },
+      },
+    }
+    const itemsOf = (form: any, path: string) =>
+      [...form.querySelectorAll(`.schema-array-items[data-path="${path}"] > .schema-array-item`)] as any[]
+    const action = (item: any, name: string) => item.querySelector(`:scope > .schema-array-actions > .schema-array-${name}`)
+
+    test('duplicate inserts a deep copy after the original', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = ordersSchema
+      form.data = { lines: [{ sku: 'A', options: ['red', 'large'] }, { sku: 'B', options: ['blue'] }] }
+      await nextTick()
+      const patches: any[] = []
+      form.addEventListener('schema-change', (event: any) => patches.push(event.detail.patch))
+      
+      action(itemsOf(form, 'lines')[0], 'duplicate').click()
+      expect(form.getData().lines).toEqual([
+        { sku: 'A', options: ['red', 'large'] },
+        { sku: 'A', options: ['red', 'large'] },
+        { sku: 'B', options: ['blue'] },
+      ])
+      expect(patches).toEqual([[{ op: 'add', path: '/lines/1', value: { sku: 'A', options: ['red', 'large'] } }]])
+      expect(form.querySelector('input[name="lines[2].options[0]"]').value).toBe('blue')
+      
+      // the copy is its own item
+      const option = form.querySelector('input[name="lines[1].options[0]"]')
+      option.value = 'green'
+      option.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(form.getData().lines[0].options).toEqual(['red', 'large'])
+      expect(form.getData().lines[1].options).toEqual(['green', 'large'])
+      
+      form.remove()
+    })
+
+    test('duplicates and pastes union items in their variant', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = contentBuilderSchema
+      form.data = contentBuilderSampleData
+      await nextTick()
+      
+      const image = itemsOf(form, 'blocks')[1]
+      action(image, 'duplicate').click()
+      expect(itemsOf(form, 'blocks')[2].dataset.variant).toBe(image.dataset.variant)
+      expect(form.getData().blocks[2]).toEqual(contentBuilderSampleData.blocks[1])
+      
+      action(itemsOf(form, 'blocks')[3], 'copy').click()
+      form.querySelector('.schema-array-paste').click()
+      const blocks = itemsOf(form, 'blocks')
+      expect(blocks[4].dataset.variant).toBe(blocks[3].dataset.variant)
+      expect(form.getData().blocks[4]).toEqual(form.getData().blocks[3])
+      
+      form.remove()
+    })
+
+    test('pastes copied items only where they validate', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = ordersSchema
+      form.data = { lines: [{ sku: 'A', options: ['red'] }], saved: [], notes: ['n'] }
+      await nextTick()
+      const paste = (path: string) =>
+        form.querySelector(`fieldset[data-path="${path}"] > .schema-array-add-controls > .schema-array-paste`).click()
+      const pasteError = (path: string) =>
+        form.querySelector(`fieldset[data-path="${path}"] > .schema-array-paste-error`).textContent
+      
+      action(itemsOf(form, 'lines')[0], 'copy').click()
+      paste('saved')
+      expect(form.getData().saved).toEqual([{ sku: 'A', options: ['red'] }])
+      expect(pasteError('saved')).toBe('')
+      
+      paste('notes')
+      expect(form.getData().notes).toEqual(['n'])
+      expect(pasteError('notes')).toContain("doesn't fit here")
+      
+      action(itemsOf(form, 'notes')[0], 'copy').click()
+      paste('notes')
+      expect(form.getData().notes).toEqual(['n', 'n'])
+      expect(pasteError('notes')).toBe('')
+      
+      form.remove()
+    })
+  })
+
+  describe('array item limits', () => {
+    const itemsOf = (form: any) => [...form.querySelectorAll('.schema-array-items > .schema-array-item')] as any[]
+
+    test('disables adding at maxItems, with a note saying why', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { tags: { type: 'array', items: { type: 'string' }, maxItems: 2 } } }
+      form.data = { tags: ['a'] }
+      await nextTick()
+      const add = form.querySelector('.schema-array-add')
+      expect(add.disabled).toBe(false)
+      
+      add.click()
+      expect(add.disabled).toBe(true)
+      expect(form.querySelector('.schema-array-paste').disabled).toBe(true)
+      expect(form.querySelector('.schema-array-duplicate').disabled).toBe(true)
+      expect(form.querySelector('.schema-array-limit').textContent).toBe('Maximum of 2 items reached')
+      
+      itemsOf(form)[1].querySelector('.schema-array-remove').click()
+      expect(add.disabled).toBe(false)
+      expect(form.querySelector('.schema-array-limit').textContent).toBe('')
+      
+      form.remove()
+    })
+
+    test('starts with minItems items and disables removing below it', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string', default: 'new' }, minItems: 2 } },
+      }
+      form.data = {}
+      await nextTick()
+      expect(form.getData()).toEqual({ tags: ['new', 'new'] })
+      expect(itemsOf(form).every(item => item.querySelector('.schema-array-remove').disabled)).toBe(true)
+      
+      form.querySelector('.schema-array-add').click()
+      expect(itemsOf(form).some(item => item.querySelector('.schema-array-remove').disabled)).toBe(false)
+      
+      form.remove()
+    })
+
+    test('flags duplicates when items must be unique', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { tags: { type: 'array', items: { type: 'string' }, uniqueItems: true } } }
+      form.data = { tags: ['a', 'b', 'c'] }
+      await nextTick()
+      const formEl = form.querySelector('form')
+      expect(formEl.checkValidity()).toBe(true)
+      
+      const third = form.querySelector('input[name="tags[2]"]')
+      third.value = 'a'
+      third.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(itemsOf(form).map(item => item.classList.contains('schema-duplicate-item'))).toEqual([true, false, true])
+      expect(form.querySelector('.schema-array-error').textContent).toBe('Items must be unique')
+      expect(formEl.checkValidity()).toBe(false)
+      
+      third.value = 'd'
+      third.dispatchEvent(new Event('input', { bubbles: true }))
+      expect(form.querySelector('.schema-duplicate-item')).toBeNull()
+      expect(formEl.checkValidity()).toBe(true)
+      
+      form.remove()
+    })
+
+    test('data with too many items makes the form invalid', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = { type: 'object', properties: { tags: { type: 'array', items: { type: 'string' }, maxItems: 1 } } }
+      form.data = { tags: ['a', 'b'] }
+      await nextTick()
+      const formEl = form.querySelector('form')
+      expect(formEl.checkValidity()).toBe(false)
+      expect(form.querySelector('.schema-array-error').textContent).toBe('No more than 1 item allowed')
+      
+      itemsOf(form)[1].querySelector('.schema-array-remove').click()
+      expect(formEl.checkValidity()).toBe(true)
+      
+      form.remove()
+    })
+  })
+
+  describe('collapsible sections', () => {
+    const section = (form: any, path: string) => form.querySelector(`.schema-collapsible[data-path="${path}"]`)
+    const summary = (form: any, path: string) => section(form, path).querySelector(':scope > legend > .schema-summary').textContent
+
+    test('collapses to a summary line that follows the data', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = orderSampleData
+      await nextTick()
+      
+      const toggle = section(form, 'items[0]').querySelector(':scope > legend > .schema-collapse')
+      expect(toggle.getAttribute('aria-expanded')).toBe('true')
+      toggle.click()
+      expect(section(form, 'items[0]').hasAttribute('data-collapsed')).toBe(true)
+      expect(toggle.getAttribute('aria-expanded')).toBe('false')
+      expect(summary(form, 'items[0]')).toBe('Wireless Keyboard × 2')
+      
+      form.applyPatch('items[0].quantity', 5)
+      expect(summary(form, 'items[0]')).toBe('Wireless Keyboard × 5')
+      
+      form.collapsePath('items')
+      expect(summary(form, 'items')).toBe(`${orderSampleData.items.length} items`)
+      // the first string property stands in for a missing x-summary
+      form.collapsePath('shipping.address')
+      expect(summary(form, 'shipping.address')).toBe(orderSampleData.shipping.address.line1)
+      
+      toggle.click()
+      expect(summary(form, 'items[0]')).toBe('')
+      
+      form.remove()
+    })
+
+    test('collapsed sections stay collapsed across renders and moves', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = orderSampleData
+      await nextTick()
+      
+      form.collapsePath('items[0]')
+      form.querySelector('.schema-array-items[data-path="items"] > .schema-array-item .schema-array-move-down').click()
+      expect(form.isCollapsed('items[1]')).toBe(true)
+      expect(form.isCollapsed('items[0]')).toBe(false)
+      
+      form.schema = { ...orderSchema, title: 'Order (edited)' }
+      await nextTick()
+      expect(section(form, 'items[1]').hasAttribute('data-collapsed')).toBe(true)
+      expect(section(form, 'items[0]').hasAttribute('data-collapsed')).toBe(false)
+      
+      form.data = { ...orderSampleData, items: orderSampleData.items.map((item: any) => ({ ...item, quantity: 9 })) }
+      await nextTick()
+      expect(section(form, 'items[1]').hasAttribute('data-collapsed')).toBe(true)
+      
+      form.remove()
+    })
+
+    test('collapseAll, expandAll and expandPath', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = orderSampleData
+      await nextTick()
+      
+      form.collapseAll()
+      expect(form.querySelectorAll('.schema-collapsible:not([data-collapsed])').length).toBe(0)
+      
+      form.expandPath('items[1].sku')
+      expect(form.isCollapsed('items')).toBe(false)
+      expect(form.isCollapsed('items[1]')).toBe(false)
+      expect(form.isCollapsed('items[0]')).toBe(true)
+      
+      form.expandAll()
+      expect(form.querySelectorAll('.schema-collapsible[data-collapsed]').length).toBe(0)
+      
+      form.remove()
+    })
+
+    test('validation errors open the sections they are in', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = { ...orderSampleData, items: [{ ...orderSampleData.items[0], sku: 'not a sku' }] }
+      await nextTick()
+      
+      form.collapseAll()
+      form.validate()
+      expect(form.isCollapsed('items')).toBe(false)
+      expect(form.isCollapsed('items[0]')).toBe(false)
+      expect(form.isCollapsed('shipping')).toBe(true)
+      
+      form.remove()
+    })
+  })
+
+  describe('read-only and view modes', () => {
+    const profileSchema = {
+      type: 'object',
+      properties: {
+        id: { type: 'string', readOnly: true },
+        name: { type: 'string' },
+        role: { type: 'string', enum: ['admin', 'user'], 'x-enumNames': ['Administrator', 'User'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    }
+    const profile = { id: 'u-1', name: 'Ada', role: 'admin', tags: ['math'] }
+
+    test('readOnly shows fields that cannot be edited', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = profileSchema
+      form.data = profile
+      form.readOnly = true
+      await nextTick()
+      
+      const name = form.querySelector('[data-path="name"]')
+      expect(name.readOnly).toBe(true)
+      expect(form.querySelector('select[data-path="role"]').disabled).toBe(true)
+      expect(form.querySelector('.schema-array-add').disabled).toBe(true)
+      expect(form.querySelector('.schema-array-remove').disabled).toBe(true)
+      expect(form.querySelector('form').classList.contains('schema-readonly')).toBe(true)
+      expect(form.getData()).toEqual(profile)
+      
+      form.readOnly = false
+      await nextTick()
+      expect(form.querySelector('[data-path="name"]').readOnly).toBe(false)
+      expect(form.querySelector('.schema-array-add').disabled).toBe(false)
+      expect(form.querySelector('.schema-array-remove').disabled).toBe(false)
+      
+      form.remove()
+    })
+
+    test('the readOnly keyword locks just its own field', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        ...profileSchema,
+        properties: { ...profileSchema.properties, tags: { ...profileSchema.properties.tags, readOnly: true } },
+      }
+      form.data = profile
+      await nextTick()
+      
+      expect(form.querySelector('[data-path="id"]').readOnly).toBe(true)
+      expect(form.querySelector('[data-path="name"]').readOnly).toBe(false)
+      expect(form.querySelector('[data-path="tags[0]"]').readOnly).toBe(true)
+      expect(form.querySelector('.schema-array-add').disabled).toBe(true)
+      
+      // items added to a read-only array are locked too
+      form.applyPatch([{ op: 'add', path: '/tags/-', value: 'logic' }])
+      expect(form.querySelector('[data-path="tags[1]"]').readOnly).toBe(true)
+      expect(form.getData().tags).toEqual(['math', 'logic'])
+      
+      form.remove()
+    })
+
+    test('disabled disables every control but the section toggles', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.data = orderSampleData
+      form.disabled = true
+      await nextTick()
+      
+      const controls = [...form.querySelectorAll('input, select, textarea, button:not(.schema-collapse)')]
+      expect(controls.length).toBeGreaterThan(0)
+      expect(controls.every((control: any) => control.disabled)).toBe(true)
+      expect(form.querySelector('.schema-collapse').disabled).toBe(false)
+      
+      // moving items by keyboard does nothing
+      const item = form.querySelector('.schema-array-items[data-path="items"] > .schema-array-item')
+      item.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', altKey: true, bubbles: true }))
+      expect(form.getData().items[0].sku).toBe(orderSampleData.items[0]!.sku)
+      
+      form.remove()
+    })
+
+    test('view mode shows the data as text', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          ...profileSchema.properties,
+          joined: { type: 'string', format: 'date' },
+          active: { type: 'boolean' },
+          password: { type: 'string', writeOnly: true },
+          contact: {
+            anyOf: [
+              { title: 'Email', type: 'object', properties: { email: { type: 'string' } }, required: ['email'] },
+              { title: 'Phone', type: 'object', properties: { phone: { type: 'string' } }, required: ['phone'] },
+            ],
+          },
+          notes: { type: 'string' },
+        },
+      }
+      form.data = { ...profile, joined: '2025-01-16', active: true, password: 'hunter2', contact: { phone: '555-0100' } }
+      form.mode = 'view'
+      await nextTick()
+      
+      const view = form.querySelector('.schema-view')
+      const shown = (path: string) => view.querySelector(`dd[data-path="${path}"]`).textContent
+      expect(form.querySelector('input, select, textarea')).toBe(null)
+      expect([...view.querySelectorAll(':scope > dl > dt')].map((dt: any) => dt.textContent))
+        .toEqual(['Id', 'Name', 'Role', 'Tags', 'Joined', 'Active', 'Password', 'Contact', 'Notes'])
+      expect(shown('role')).toBe('Administrator')
+      expect(shown('joined')).toBe(new Date(2025, 0, 16).toLocaleDateString())
+      expect(shown('active')).toBe('Yes')
+      expect(shown('password')).not.toContain('hunter2')
+      expect(view.querySelector('dd[data-path="contact"] .schema-view-variant').textContent).toBe('Phone')
+      expect(shown('contact.phone')).toBe('555-0100')
+      expect(view.querySelectorAll('dd[data-path="tags"] li').length).toBe(1)
+      expect(shown('notes')).toBe('—')
+      
+      form.applyPatch('name', 'Ada Lovelace')
+      await nextTick()
+      expect(form.querySelector('dd[data-path="name"]').textContent).toBe('Ada Lovelace')
+      
+      form.mode = 'edit'
+      await nextTick()
+      expect(form.querySelector('[data-path="name"]').value).toBe('Ada Lovelace')
+      
+      form.remove()
+    })
+  })
+
+  describe('wizard mode', () => {
+    const onboardingSchema = {
+      type: 'object',
+      properties: {
+        plan: { type: 'string', enum: ['free', 'pro'] },
+        account: { type: 'object', title: 'Account', properties: { email: { type: 'string' } }, required: ['email'] },
+        profile: { type: 'object', properties: { bio: { type: 'string' } } },
+      },
+    }
+    const shownKeys = (form: any) =>
+      ['plan', 'account', 'profile'].filter(key =>
+        !form.querySelector(`[data-path="${key}"]`).closest('.schema-step-hidden')
+      )
+
+    test('shows one step at a time, validating each before moving on', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      const changes: any[] = []
+      form.addEventListener('schema-step-change', (e: CustomEvent) => changes.push(e.detail))
+      
+      form.schema = onboardingSchema
+      form.data = { plan: 'pro' }
+      form.wizard = true
+      await nextTick()
+      
+      expect(form.steps.map((step: any) => step.title)).toEqual(['Details', 'Account', 'Profile'])
+      expect(shownKeys(form)).toEqual(['plan'])
+      expect(form.querySelectorAll('.schema-steps > li').length).toBe(3)
+      expect(form.querySelector('.schema-step-back').disabled).toBe(true)
+      
+      form.querySelector('.schema-step-next').click()
+      expect(form.step).toBe(1)
+      expect(shownKeys(form)).toEqual(['account'])
+      
+      // the email is required before moving on
+      expect(form.nextStep()).toBe(false)
+      expect(form.step).toBe(1)
+      expect(form.querySelector('[data-error-path="account.email"]')).not.toBe(null)
+      
+      form.applyPatch('account.email', 'ada@example.com')
+      expect(form.nextStep()).toBe(true)
+      expect(shownKeys(form)).toEqual(['profile'])
+      expect(form.querySelector('.schema-step-next')).toBe(null)
+      expect(form.querySelector('.schema-step-finish')).not.toBe(null)
+      expect(form.getData()).toEqual({ plan: 'pro', account: { email: 'ada@example.com' }, profile: { bio: '' } })
+      
+      // completed steps can be jumped back to, and forward again
+      form.querySelector('.schema-steps > li:first-child button').click()
+      expect(form.step).toBe(0)
+      expect(form.querySelector('.schema-steps > li:last-child button').disabled).toBe(false)
+      expect(form.goToStep(2)).toBe(true)
+      
+      expect(changes.map(change => change.step)).toEqual([1, 2, 0, 2])
+      expect(changes[1].data.account.email).toBe('ada@example.com')
+      
+      form.remove()
+    })
+
+    test('runs of other properties get distinct step titles', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      
+      form.schema = orderSchema
+      form.wizard = true
+      await nextTick()
+      
+      const titles = form.steps.map((step: any) => step.title)
+      expect(titles[0]).toBe('Details')
+      expect(new Set(titles).size).toBe(titles.length)
+      
+      form.remove()
+    })
+
+    test('groups steps by x-step and restores progress', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      const submitted: any[] = []
+      form.addEventListener('schema-submit', (e: CustomEvent) => submitted.push(e.detail.data))
+      
+      form.schema = {
+        type: 'object',
+        properties: {
+          firstName: { type: 'string', 'x-step': 'About you' },
+          lastName: { type: 'string' },
+          company: { type: 'string', 'x-step': 'Work' },
+          role: { type: 'string' },
+          nickname: { type: 'string', 'x-step': 'About you' },
+        },
+        required: ['role'],
+      }
+      form.data = { firstName: 'Ada', company: 'Analytical Engines' }
+      form.wizard = true
+      form.step = 1
+      await nextTick()
+      
+      expect(form.steps).toEqual([
+        { title: 'About you', keys: ['firstName', 'lastName', 'nickname'] },
+        { title: 'Work', keys: ['company', 'role'] },
+      ])
+      expect(form.step).toBe(1)
+      expect(form.querySelector('.schema-step-current').textContent).toBe('Work')
+      
+      form.querySelector('.schema-step-finish').click()
+      expect(submitted.length).toBe(0)
+      form.applyPatch('role', 'Engineer')
+      form.querySelector('.schema-step-finish').click()
+      expect(submitted.length).toBe(1)
+      expect(submitted[0]).toMatchObject({ firstName: 'Ada', company: 'Analytical Engines', role: 'Engineer' })
+      
+      form.wizard = false
+      await nextTick()
+      expect(form.querySelector('.schema-steps')).toBe(null)
+      expect(form.querySelector('.schema-step-hidden')).toBe(null)
+      
+      form.remove()
+    })
+  })
+
+  describe('inferred schemas', () => {
+    test('edits the data a schema was inferred from', async () => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      const contacts = {
+        owner: { name: 'Ada', email: 'ada@example.com', since: '2024-05-01' },
+        people: [
+          { name: 'Bob', role: 'admin', age: 41 },
+          { name: 'Cy', role: 'editor', age: null },
+          { name: 'Di', role: 'admin', age: 29 },
+        ],
+        active: true,
+      }
+      
+      form.schema = inferSchema(contacts)
+      form.data = contacts
+      await nextTick()
+      
+      expect(form.querySelector('input[data-path="owner.email"]').type).toBe('email')
+      expect(form.querySelector('input[data-path="owner.since"]').type).toBe('date')
+      expect(form.querySelector('select[data-path="people[0].role"]').value).toBe('admin')
+      expect(form.getData()).toEqual(contacts)
+      
+      form.remove()
+    })
+
+    test('the data a schema was inferred from is valid', async () => {
+      const times = { createdAt: '2024-01-15T10:30:00Z', offset: '2024-01-15T10:30:00+02:00', local: '2024-01-15T10:30' }
+      for (const sample of [orderSampleData, contentBuilderSampleData, contactSampleData, blogPostSampleData, times]) {
+        const form = document.createElement('tosi-schema-form') as any
+        document.body.appendChild(form)
+        form.schema = inferSchema(sample)
+        form.data = sample
+        await nextTick()
+        
+        expect(form.validate().errors).toEqual({})
+        if (sample === times) expect(form.getData()).toEqual(times)
+        
+        form.remove()
+      }
+    })
+  })
+
+  describe('autosave', () => {
+    const profileSchema = {
+      type: 'object',
+      properties: { name: { type: 'string' }, city: { type: 'string' } },
+    }
+    // Drafts kept in a Map, so tests can look at them
+    const memoryDrafts = (): DraftStorage & { drafts: Map<string, any> } => {
+      const drafts = new Map<string, any>()
+      return {
+        drafts,
+        load: async key => drafts.get(key),
+        save: async (key, draft) => { drafts.set(key, draft) },
+        remove: async key => { drafts.delete(key) },
+      }
+    }
+    const mount = async (storage: DraftStorage, data: any, options: any = {}) => {
+      const form = document.createElement('tosi-schema-form') as any
+      document.body.appendChild(form)
+      form.schema = profileSchema
+      form.data = data
+      form.autosave = { key: 'profile', storage, delay: 0, ...options }
+      await nextTick()
+      await nextTick()
+      return form
+    }
+
+    test('saves edits as a draft, and offers to restore it', async () => {
+      const storage = memoryDrafts()
+      const first = await mount(storage, { name: 'Ada', city: 'Oslo' })
+      expect(first.querySelector('.schema-draft')).toBeNull()
+      
+      const nameInput = first.querySelector('input[data-path="name"]')
+      nameInput.value = 'Grace'
+      nameInput.dispatchEvent(new Event('input', { bubbles: true }))
+      await nextTick()
+      
+      const saved = storage.drafts.get('profile')
+      expect(saved.data).toEqual({ name: 'Grace', city: 'Oslo' })
+      expect(saved.fingerprint).toBe(schemaFingerprint(profileSchema))
+      first.remove()
+      
+      const offers: any[] = []
+      document.body.addEventListener('schema-draft', (e: Event) => offers.push((e as CustomEvent).detail), { once: true })
+      const second = await mount(storage, { name: 'Ada', city: 'Oslo' })
+      expect(offers).toEqual([{ data: { name: 'Grace', city: 'Oslo' }, savedAt: saved.savedAt }])
+      expect(second.querySelector(':scope > .schema-draft')).not.toBeNull()
+      expect(second.draft.data).toEqual({ name: 'Grace', city: 'Oslo' })
+      
+      second.querySelector('.schema-draft-restore').click()
+      expect(second.querySelector('.schema-draft')).toBeNull()
+      expect(second.getData()).toEqual({ name: 'Grace', city: 'Oslo' })
+      expect(second.canUndo).toBe(true)
+      
+      // submitting is the end of the draft
+      second.querySelector('form').dispatchEvent(new Event('submit', { cancelable: true }))
+      await nextTick()
+      expect(storage.drafts.has('profile')).toBe(false)
+      
+      second.remove()
+    })
+
+    test('offers nothing when the draft is the data', async () => {
+      const storage = memoryDrafts()
+      const data = { name: 'Ada', city: 'Oslo' }
+      storage.drafts.set('profile', { data, fingerprint: schemaFingerprint(profileSchema), savedAt: 1 })
+      const form = await mount(storage, data)
+      
+      expect(form.draft).toBeNull()
+      expect(form.querySelector('.schema-draft')).toBeNull()
+      
+      form.remove()
+    })
+      
+    test('checks the draft again when data is assigned later', async () => {
+      const storage = memoryDrafts()
+      const draft = { name: 'Grace', city: 'Oslo' }
+      storage.drafts.set('profile', { data: draft, fingerprint: schemaFingerprint(profileSchema), savedAt: 1 })
+      const form = await mount(storage, {})
+      expect(form.draft.data).toEqual(draft)
+      expect(form.querySelector(':scope > .schema-draft')).not.toBeNull()
+      
+      // the data loaded afterwards is the draft, so there's nothing to restore
+      form.data = { ...draft }
+      await nextTick()
+      expect(form.draft).toBeNull()
+      expect(form.querySelector('.schema-draft')).toBeNull()
+      
+      form.data = { name: 'Ada', city: 'Oslo' }
+      await nextTick()
+      expect(form.draft.data).toEqual(draft)
+      expect(form.querySelector(':scope > .schema-draft')).not.toBeNull()
+      
+      form.remove()
+    })
+
+    test('discards drafts of another version of the schema, unless they are migrated', async () => {
+      const storage = memoryDrafts()
+      storage.drafts.set('profile', { data: { fullName: 'Grace' }, fingerprint: 'old', savedAt: 1 })
+      const form = await mount(storage, { name: 'Ada' })
+      expect(form.draft).toBeNull()
+      expect(storage.drafts.has('profile')).toBe(false)
+      form.remove()
+      
+      storage.drafts.set('profile', { data: { fullName: 'Grace' }, fingerprint: 'old', savedAt: 1 })
+      const migrated = await mount(storage, { name: 'Ada' }, {
+        migrate: (draft: any) => ({ name: draft.data.fullName }),
+      })
+      expect(migrated.draft.data).toEqual({ name: 'Grace' })
+      
+      migrated.querySelector('.schema-draft-discard').click()
+      await nextTick()
+      expect(migrated.draft).toBeNull()
+      expect(storage.drafts.has('profile')).toBe(false)
+      expect(migrated.getData().name).toBe('Ada')
+      
+      migrated.remove()
+    })
+  })
 })
@@ -2,14 +2,40 @@
 // Pre-built component that uses the blueprint with bundled tosijs
 
 import { makeComponent } from 'tosijs'
-import { schemaFormBlueprint, type JSONSchema, type SchemaFormParts } from './blueprint'
+import {
+  schemaFormBlueprint,
+  type JSONSchema,
+  type SchemaFormParts,
+  type UILayoutSection,
+  type UISchema,
+  type ValidationResult,
+  type WizardStep,
+} from './blueprint'
+import { mapResolver, type RefResolver } from './refs'
+import { validateData, type ValidationError } from './validate'
+import { mergeAllOf, type MergeResult } from './merge'
+import { inferSchema, type InferOptions } from './infer'
+import { typedForm, type FromSchema, type TypedSchemaForm } from './from-schema'
+import {
+  indexedDbDrafts,
+  localStorageDrafts,
+  schemaFingerprint,
+  type AutosaveOptions,
+  type Draft,
+  type DraftStorage,
+} from './drafts'
+import { registerWidget, unregisterWidget, type SchemaWidget, type WidgetContext } from './widgets'
+import type { JsonPatchOperation } from './diff'
 
 // Re-export types for consumers
-export type { JSONSchema, SchemaFormParts }
+export type { JSONSchema, SchemaFormParts, RefResolver, ValidationResult, ValidationError, UISchema, UILayoutSection, SchemaWidget, WidgetContext, MergeResult, JsonPatchOperation, WizardStep, InferOptions, FromSchema, TypedSchemaForm, AutosaveOptions, Draft, DraftStorage }
 
 // Re-export blueprint for advanced usage
 export { schemaFormBlueprint }
 
+// Re-export helpers
+export { mapResolver, validateData, mergeAllOf, inferSchema, typedForm, registerWidget, unregisterWidget, localStorageDrafts, indexedDbDrafts, schemaFingerprint }
+
 /**
  * Schema Form Component
  * 
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeAll } from 'bun:test'
+import { schemaForm } from './schema-form'
+import { renderToString } from './ssr'
+import { orderSchema, orderSampleData } from './example-schemas'
+
+// Wait for queueRender to flush
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// Markup without what differs between a live form and a server-rendered one: event
+// bindings, generated ids and values (properties live, attributes on the server)
+const normalize = (html: string): string =>
+  html
+    .replace(/<tosi-schema-form>|<\/tosi-schema-form>/g, '')
+    .replace(/ data-ssr=""/g, '')
+    .replace(/ -xin-event/g, '')
+    .replace(/ class=""/g, '')
+    .replace(/ (id|for)="[^"]*"/g, '')
+    .replace(/ (value|checked|selected)="[^"]*"/g, '')
+    .replace(/(<textarea[^>]*>)[^<]*/g, '$1')
+    .replace(/ (min|max|step)="undefined"/g, '')
+
+describe('renderToString', () => {
+  beforeAll(async () => {
+    await schemaForm
+  })
+
+  test('renders the markup the component does', async () => {
+    const form = document.createElement('tosi-schema-form') as any
+    document.body.appendChild(form)
+    form.schema = orderSchema
+    form.data = orderSampleData
+    await nextTick()
+    
+    expect(normalize(renderToString(orderSchema, orderSampleData))).toBe(normalize(form.innerHTML))
+    
+    form.remove()
+  })
+
+  test('writes values into the markup', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', title: 'Name', minLength: 2 },
+        bio: { type: 'string', maxLength: 1000 },
+        size: { type: 'string', enum: ['S', 'M', 'L'] },
+        gift: { type: 'boolean' },
+      },
+      required: ['name'],
+    }
+    const html = renderToString(schema, { name: 'Ada & "Bob"', bio: '<b>hi</b>', size: 'M', gift: true })
+    
+    expect(html).toStartWith('<tosi-schema-form><form class="schema-form" data-ssr="">')
+    expect(html).toContain('value="Ada &amp; &quot;Bob&quot;"')
+    expect(html).toMatch(/<input[^>]*name="name"[^>]*required=""/)
+    expect(html).toMatch(/<input[^>]*name="name"[^>]*minlength="2"/)
+    expect(html).toContain('&lt;b&gt;hi&lt;/b&gt;</textarea>')
+    expect(html).toContain('<option value="M" selected="">')
+    expect(html).toMatch(/<input type="checkbox"[^>]*checked=""/)
+  })
+
+  test('renders read-only, view and wizard forms', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', title: 'Name' },
+        address: { type: 'object', title: 'Address', properties: { city: { type: 'string' } } },
+      },
+    }
+    const data = { name: 'Ada', address: { city: 'Oslo' } }
+    
+    expect(renderToString(schema, data, { readOnly: true })).toMatch(/<input[^>]*name="name"[^>]*readonly=""/)
+    const view = renderToString(schema, data, { mode: 'view' })
+    expect(view).toContain('class="schema-view"')
+    expect(view).toContain('<span class="schema-view-value">Oslo</span>')
+    const wizard = renderToString(schema, data, { wizard: true, step: 1 })
+    expect(wizard).toContain('Step 2 of 2')
+    expect(wizard).toContain('<li class="schema-step schema-step-done">')
+  })
+
+  test('runs without a DOM', () => {
+    const script = `
+      import { renderToString } from ${JSON.stringify(import.meta.dir + '/ssr')}
+      console.log(typeof document, renderToString({ type: 'string', title: 'Name' }, 'Ada'))
+    `
+    const result = Bun.spawnSync([process.execPath, '-e', script], { cwd: '/' })
+    
+    expect(result.stderr.toString()).toBe('')
+    expect(result.stdout.toString()).toContain('undefined <tosi-schema-form><form')
+    expect(result.stdout.toString()).toContain('value="Ada"')
+  })
+
+  test('hydrates server-rendered markup, keeping what was typed into it', async () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        size: { type: 'string', enum: ['S', 'M', 'L'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    }
+    const data = { name: 'Ada', size: 'S', tags: ['a'] }
+    const host = document.createElement('div')
+    host.innerHTML = renderToString(schema, data)
+    document.body.appendChild(host)
+    const form = host.querySelector('tosi-schema-form') as any
+    await nextTick()
+    
+    // the markup is kept until the component has a schema
+    const serverForm = form.querySelector('form[data-ssr]')
+    const serverInput = form.querySelector('input[data-path="name"]') as HTMLInputElement
+    expect(serverInput).not.toBeNull()
+    serverInput.value = 'Grace'
+    ;(form.querySelector('select[data-path="size"]') as HTMLSelectElement).value = 'L'
+    
+    const changes: any[] = []
+    form.addEventListener('schema-change', (e: CustomEvent) => changes.push(e.detail))
+    form.schema = schema
+    form.data = data
+    await nextTick()
+    
+    expect(form.querySelector('form[data-ssr]')).toBeNull()
+    expect(form.querySelectorAll('form').length).toBe(1)
+    // the server-rendered form and its inputs are the ones now in use
+    expect(form.querySelector('form')).toBe(serverForm)
+    expect(form.querySelector('input[data-path="name"]')).toBe(serverInput)
+    expect(serverInput.value).toBe('Grace')
+    expect(form.querySelector(`label[for="${serverInput.id}"]`)).not.toBeNull()
+    expect(form.getData()).toEqual({ name: 'Grace', size: 'L', tags: ['a'] })
+    expect(changes.length).toBeGreaterThan(0)
+    
+    // the adopted form is live
+    ;(form.querySelector('.schema-array-add') as HTMLButtonElement).click()
+    expect(form.getData().tags).toHaveLength(2)
+    let submitted: any
+    form.addEventListener('schema-submit', (e: CustomEvent) => { submitted = e.detail.data })
+    serverForm.dispatchEvent(new Event('submit', { cancelable: true }))
+    expect(submitted.name).toBe('Grace')
+    
+    host.remove()
+  })
+})
@@ -0,0 +1,619 @@
+// Server-side Rendering
+// Render a form to an HTML string without a DOM, by running the blueprint's own renderers
+// against minimal stand-ins for the elements tosijs would create
+
+import type { XinFactory } from 'tosijs'
+import { schemaFormBlueprint, type JSONSchema, type UISchema } from './blueprint'
+import type { RefResolver } from './refs'
+
+// Elements without a closing tag
+const voidTags = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+
+// Element properties that stand for attributes, by property name
+const reflected: Record<string, string> = {
+  id: 'id',
+  title: 'title',
+  type: 'type',
+  name: 'name',
+  min: 'min',
+  max: 'max',
+  step: 'step',
+  placeholder: 'placeholder',
+  pattern: 'pattern',
+  minLength: 'minlength',
+  maxLength: 'maxlength',
+  rows: 'rows',
+  htmlFor: 'for',
+  tabIndex: 'tabindex',
+}
+
+// Boolean properties that stand for attributes. Unlike in a browser, checked and selected
+// are written to the markup, so the server-rendered inputs show their values.
+const flags: Record<string, string> = {
+  hidden: 'hidden',
+  disabled: 'disabled',
+  readOnly: 'readonly',
+  required: 'required',
+  checked: 'checked',
+  selected: 'selected',
+  multiple: 'multiple',
+}
+
+const camelToKebab = (name: string): string => name.replace(/[A-Z]/g, c => '-' + c.toLowerCase())
+
+const escapeText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+
+// Selectors: comma-separated lists of compound selectors (tag, .class, #id, [attr], [attr="value"],
+// :not(...) and :scope) joined by descendant and child combinators -- what the blueprint queries with
+
+interface Compound {
+  tag?: string
+  ids: string[]
+  classes: string[]
+  attributes: Array<{ name: string, value?: string }>
+  nots: Selector[]
+  scope: boolean
+}
+
+// compounds from left to right, each with how it relates to the one before
+type Selector = Array<{ combinator: ' ' | '>', compound: Compound }>
+
+// Split at a character outside any brackets, parentheses or quotes
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let quote = ''
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!
+    if (quote) {
+      if (c === '\\') i++
+      else if (c === quote) quote = ''
+    } else if (c === separator && depth === 0) {
+      parts.push(text.slice(start, i))
+      start = i + 1
+    } else if (c === '"' || c === "'") {
+      quote = c
+    } else if (c === '[' || c === '(') {
+      depth++
+    } else if (c === ']' || c === ')') {
+      depth--
+    }
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+const parseCompound = (text: string): Compound => {
+  const compound: Compound = { ids: [], classes: [], attributes: [], nots: [], scope: false }
+  const name = /^[\w-]+/
+  let rest = text
+  const tag = rest.match(name)
+  if (tag) {
+    compound.tag = tag[0].toLowerCase()
+    rest = rest.slice(tag[0].length)
+  } else if (rest.startsWith('*')) {
+    rest = rest.slice(1)
+  }
+  while (rest) {
+    if (rest[0] === '.' || rest[0] === '#') {
+      const match = rest.slice(1).match(name)![0]
+      ;(rest[0] === '.' ? compound.classes : compound.ids).push(match)
+      rest = rest.slice(match.length + 1)
+    } else if (rest[0] === '[') {
+      const end = splitTopLevel(rest.slice(1), ']')[0]!
+      const [attribute, value] = end.split(/=(.*)/s) as [string, string | undefined]
+      compound.attributes.push({
+        name: attribute.trim().toLowerCase(),
+        value: value === undefined ? undefined : value.trim().replace(/^(["'])(.*)\1$/s, '$2').replace(/\\(.)/g, '$1'),
+      })
+      rest = rest.slice(end.length + 2)
+    } else if (rest.startsWith(':scope')) {
+      compound.scope = true
+      rest = rest.slice(6)
+    } else if (rest.startsWith(':not(')) {
+      const inner = splitTopLevel(rest.slice(5), ')')[0]!
+      compound.nots.push(...parseSelectors(inner))
+      rest = rest.slice(inner.length + 6)
+    } else {
+      throw new Error(`unsupported selector: ${text}`)
+    }
+  }
+  return compound
+}
+
+const parseSelector = (text: string): Selector => {
+  const selector: Selector = []
+  let combinator: ' ' | '>' = ' '
+  for (const token of splitTopLevel(text.trim().replace(/\s*>\s*/g, ' > ').replace(/\s+/g, ' '), ' ')) {
+    if (token === '>') combinator = '>'
+    else if (token) {
+      selector.push({ combinator, compound: parseCompound(token) })
+      combinator = ' '
+    }
+  }
+  return selector
+}
+
+const parsedSelectors = new Map<string, Selector[]>()
+
+const parseSelectors = (text: string): Selector[] => {
+  let selectors = parsedSelectors.get(text)
+  if (!selectors) {
+    selectors = splitTopLevel(text, ',').map(parseSelector)
+    parsedSelectors.set(text, selectors)
+  }
+  return selectors
+}
+
+const matchesCompound = (el: ServerElement, compound: Compound, scope: ServerElement): boolean =>
+  (!compound.scope || el === scope) &&
+  (!compound.tag || el.localName === compound.tag) &&
+  compound.ids.every(id => el.getAttribute('id') === id) &&
+  compound.classes.every(name => el.classList.contains(name)) &&
+  compound.attributes.every(({ name, value }) =>
+    value === undefined ? el.hasAttribute(name) : el.getAttribute(name) === value
+  ) &&
+  !compound.nots.some(not => matchesFrom(el, not, not.length - 1, scope))
+
+// Does el match the selector's compounds up to index i?
+const matchesFrom = (el: ServerElement, selector: Selector, i: number, scope: ServerElement): boolean => {
+  if (!matchesCompound(el, selector[i]!.compound, scope)) return false
+  if (i === 0) return true
+  if (selector[i]!.combinator === '>') {
+    return el.parentElement !== null && matchesFrom(el.parentElement, selector, i - 1, scope)
+  }
+  for (let ancestor = el.parentElement; ancestor; ancestor = ancestor.parentElement) {
+    if (matchesFrom(ancestor, selector, i - 1, scope)) return true
+  }
+  return false
+}
+
+const matchesSelectors = (el: ServerElement, selectors: Selector[], scope: ServerElement): boolean =>
+  selectors.some(selector => matchesFrom(el, selector, selector.length - 1, scope))
+
+class ServerText {
+  parentNode: ServerElement | null = null
+  readonly nodeType = 3
+
+  constructor(public data: string) {}
+
+  get textContent(): string {
+    return this.data
+  }
+
+  remove(): void {
+    this.parentNode?.removeChild(this)
+  }
+}
+
+type ServerNode = ServerElement | ServerText
+
+/**
+ * Just enough of an HTMLElement for the blueprint to render into: attributes, classes,
+ * children, selectors and form control values. Events are ignored; they're bound when
+ * the form is hydrated in the browser.
+ */
+class ServerElement {
+  readonly nodeType = 1
+  readonly localName: string
+  parentNode: ServerElement | null = null
+  childNodes: ServerNode[] = []
+  private attributes = new Map<string, string>()
+  // a textarea's value, once it's been set
+  private textValue?: string
+  // an option's selected flag, defined with the other flags below
+  declare selected: boolean
+
+  constructor(tag: string) {
+    this.localName = tag.toLowerCase()
+  }
+
+  get tagName(): string {
+    return this.localName.toUpperCase()
+  }
+
+  get parentElement(): ServerElement | null {
+    return this.parentNode
+  }
+
+  get children(): ServerElement[] {
+    return this.childNodes.filter((node): node is ServerElement => node instanceof ServerElement)
+  }
+
+  get isConnected(): boolean {
+    return false
+  }
+
+  get ownerDocument(): { activeElement: null } {
+    return { activeElement: null }
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name.toLowerCase()) ?? null
+  }
+
+  setAttribute(name: string, value: any): void {
+    this.attributes.set(name.toLowerCase(), String(value))
+  }
+
+  removeAttribute(name: string): void {
+    this.attributes.delete(name.toLowerCase())
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.attributes.has(name.toLowerCase())
+  }
+
+  toggleAttribute(name: string, force?: boolean): boolean {
+    const on = force ?? !this.hasAttribute(name)
+    if (on && !this.hasAttribute(name)) this.setAttribute(name, '')
+    if (!on) this.removeAttribute(name)
+    return on
+  }
+
+  get classList() {
+    const names = () => (this.getAttribute('class') || '').split(/\s+/).filter(Boolean)
+    const update = (list: string[]) => this.setAttribute('class', list.join(' '))
+    return {
+      contains: (name: string) => names().includes(name),
+      add: (...added: string[]) => update([...new Set([...names(), ...added])]),
+      remove: (...removed: string[]) => {
+        if (this.hasAttribute('class')) update(names().filter(name => !removed.includes(name)))
+      },
+      toggle: (name: string, force?: boolean) => {
+        const on = force ?? !names().includes(name)
+        if (on) update([...new Set([...names(), name])])
+        else if (this.hasAttribute('class')) update(names().filter(other => other !== name))
+        return on
+      },
+    }
+  }
+
+  get dataset(): Record<string, string | undefined> {
+    const attribute = (key: string | symbol) => 'data-' + camelToKebab(String(key))
+    return new Proxy({}, {
+      get: (_, key) => this.getAttribute(attribute(key)) ?? undefined,
+      set: (_, key, value) => {
+        this.setAttribute(attribute(key), value)
+        return true
+      },
+      has: (_, key) => this.hasAttribute(attribute(key)),
+      deleteProperty: (_, key) => {
+        this.removeAttribute(attribute(key))
+        return true
+      },
+    })
+  }
+
+  get style(): Record<string, any> {
+    const declarations = () => new Map((this.getAttribute('style') || '')
+      .split(';')
+      .map(declaration => declaration.split(':').map(s => s.trim()) as [string, string])
+      .filter(([property]) => property))
+    const setProperty = (property: string, value: string) => {
+      const map = declarations()
+      map.set(property, value)
+      this.setAttribute('style', [...map].map(([p, v]) => `${p}: ${v}`).join('; '))
+    }
+    return new Proxy({ setProperty }, {
+      set: (_, key, value) => {
+        setProperty(camelToKebab(String(key)), value)
+        return true
+      },
+    })
+  }
+
+  get textContent(): string {
+    return this.childNodes.map(node => node.textContent).join('')
+  }
+
+  set textContent(text: string) {
+    this.replaceChildren(...(text ? [text] : []))
+  }
+
+  get value(): string {
+    if (this.localName === 'select') {
+      const options = this.options
+      return (options[this.selectedIndex] ?? options[0])?.value ?? ''
+    }
+    if (this.localName === 'textarea') return this.textValue ?? this.textContent
+    if (this.localName === 'option') return this.getAttribute('value') ?? this.textContent
+    return this.getAttribute('value') ?? ''
+  }
+
+  set value(value: any) {
+    const text = value === null || value === undefined ? '' : String(value)
+    if (this.localName === 'select') {
+      this.options.forEach(option => { option.selected = option.value === text })
+    } else if (this.localName === 'textarea') {
+      this.textValue = text
+    } else {
+      this.setAttribute('value', text)
+    }
+  }
+
+  get options(): ServerElement[] {
+    return this.querySelectorAll('option')
+  }
+
+  get selectedIndex(): number {
+    const options = this.options
+    const selected = options.findIndex(option => option.hasAttribute('selected'))
+    return selected >= 0 ? selected : options.length > 0 ? 0 : -1
+  }
+
+  private adopt(items: Array<ServerNode | string>): ServerNode[] {
+    return items.map(item => {
+      const node = typeof item === 'string' ? new ServerText(item) : item
+      node.remove()
+      node.parentNode = this
+      return node
+    })
+  }
+
+  append(...items: Array<ServerNode | string>): void {
+    this.childNodes.push(...this.adopt(items))
+  }
+
+  prepend(...items: Array<ServerNode | string>): void {
+    this.childNodes.unshift(...this.adopt(items))
+  }
+
+  appendChild<T extends ServerNode>(node: T): T {
+    this.append(node)
+    return node
+  }
+
+  insertBefore<T extends ServerNode>(node: T, reference: ServerNode | null): T {
+    if (!reference) return this.appendChild(node)
+    this.adopt([node])
+    this.childNodes.splice(this.childNodes.indexOf(reference), 0, node)
+    return node
+  }
+
+  removeChild<T extends ServerNode>(node: T): T {
+    this.childNodes = this.childNodes.filter(child => child !== node)
+    node.parentNode = null
+    return node
+  }
+
+  replaceChildren(...items: Array<ServerNode | string>): void {
+    for (const child of [...this.childNodes]) this.removeChild(child)
+    this.append(...items)
+  }
+
+  remove(): void {
+    this.parentNode?.removeChild(this)
+  }
+
+  before(...items: Array<ServerNode | string>): void {
+    const parent = this.parentNode
+    if (!parent) return
+    const nodes = this.adopt(items)
+    nodes.forEach(node => { node.parentNode = parent })
+    parent.childNodes.splice(parent.childNodes.indexOf(this), 0, ...nodes)
+  }
+
+  after(...items: Array<ServerNode | string>): void {
+    const parent = this.parentNode
+    if (!parent) return
+    const nodes = this.adopt(items)
+    nodes.forEach(node => { node.parentNode = parent })
+    parent.childNodes.splice(parent.childNodes.indexOf(this) + 1, 0, ...nodes)
+  }
+
+  replaceWith(...items: Array<ServerNode | string>): void {
+    this.before(...items.filter(item => item !== this))
+    if (!items.includes(this)) this.remove()
+  }
+
+  contains(node: ServerNode | null): boolean {
+    for (let current = node; current; current = current.parentNode) {
+      if (current === this) return true
+    }
+    return false
+  }
+
+  matches(selector: string): boolean {
+    return matchesSelectors(this, parseSelectors(selector), this)
+  }
+
+  closest(selector: string): ServerElement | null {
+    const selectors = parseSelectors(selector)
+    for (let el: ServerElement | null = this; el; el = el.parentElement) {
+      if (matchesSelectors(el, selectors, el)) return el
+    }
+    return null
+  }
+
+  querySelectorAll(selector: string): ServerElement[] {
+    const selectors = parseSelectors(selector)
+    const found: ServerElement[] = []
+    const visit = (el: ServerElement) => {
+      for (const child of el.children) {
+        if (matchesSelectors(child, selectors, this)) found.push(child)
+        visit(child)
+      }
+    }
+    visit(this)
+    return found
+  }
+
+  querySelector(selector: string): ServerElement | null {
+    return this.querySelectorAll(selector)[0] ?? null
+  }
+
+  addEventListener(): void {}
+  removeEventListener(): void {}
+  dispatchEvent(): boolean {
+    return true
+  }
+
+  focus(): void {}
+  setCustomValidity(): void {}
+  checkValidity(): boolean {
+    return true
+  }
+
+  get innerHTML(): string {
+    if (this.localName === 'textarea') return escapeText(this.value)
+    return this.childNodes
+      .map(node => (node instanceof ServerElement ? node.outerHTML : escapeText(node.data)))
+      .join('')
+  }
+
+  get outerHTML(): string {
+    const attributes = [...this.attributes]
+      .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+      .join('')
+    if (voidTags.has(this.localName)) return `<${this.localName}${attributes}>`
+    return `<${this.localName}${attributes}>${this.innerHTML}</${this.localName}>`
+  }
+}
+
+for (const [property, attribute] of Object.entries(reflected)) {
+  Object.defineProperty(ServerElement.prototype, property, {
+    get(this: ServerElement) {
+      return this.getAttribute(attribute) ?? ''
+    },
+    set(this: ServerElement, value: any) {
+      this.setAttribute(attribute, value)
+    },
+  })
+}
+
+for (const [property, attribute] of Object.entries(flags)) {
+  Object.defineProperty(ServerElement.prototype, property, {
+    get(this: ServerElement) {
+      return this.hasAttribute(attribute)
+    },
+    set(this: ServerElement, value: any) {
+      this.toggleAttribute(attribute, !!value)
+    },
+  })
+}
+
+// Set an element creator's prop the way tosijs does: properties the element has are set
+// directly, `on...` handlers are left for the browser, and anything else is an attribute
+const setProp = (el: ServerElement, key: string, value: any): void => {
+  if (key === 'apply') {
+    value(el)
+  } else if (/^on[A-Z]/.test(key)) {
+    return
+  } else if (key === 'style' && typeof value === 'object') {
+    Object.assign(el.style, value)
+  } else if (key === 'value' || key in reflected || key in flags) {
+    (el as unknown as Record<string, unknown>)[key] = value
+  } else {
+    const attribute = camelToKebab(key)
+    if (attribute === 'class') el.classList.add(...String(value).split(' ').filter(Boolean))
+    else if (typeof value === 'boolean') el.toggleAttribute(attribute, value)
+    else el.setAttribute(attribute, value)
+  }
+}
+
+const serverElements = new Proxy({}, {
+  get: (_, tag: string) => (...parts: any[]) => {
+    const el = new ServerElement(camelToKebab(tag))
+    for (const part of parts) {
+      if (part instanceof ServerElement || part instanceof ServerText) el.append(part)
+      else if (typeof part === 'string' || typeof part === 'number') el.append(String(part))
+      else if (part && typeof part === 'object') {
+        for (const [key, value] of Object.entries(part)) setProp(el, key, value)
+      }
+    }
+    return el
+  },
+})
+
+// The component renders itself rather than waiting for a frame, and styles go unused
+class ServerComponent extends ServerElement {
+  constructor() {
+    super('tosi-schema-form')
+  }
+
+  queueRender(): void {}
+}
+
+const cssVars = new Proxy({}, { get: (_, name) => `var(--${camelToKebab(String(name))})` })
+const cssVarDefaults = new Proxy({}, {
+  get: (_, name) => (fallback: string) => `var(--${camelToKebab(String(name))}, ${fallback})`,
+})
+
+// What renderToString sets on the component, rendered against the stand-ins
+interface ServerSchemaFormElement extends ServerComponent {
+  schema: JSONSchema
+  uiSchema: UISchema
+  refResolver: RefResolver
+  data: any
+  readOnly: boolean
+  disabled: boolean
+  mode: 'edit' | 'view'
+  wizard: boolean
+  step: number
+  render(): void
+}
+
+let ServerSchemaForm: (new () => ServerSchemaFormElement) | undefined
+
+export interface ServerRenderOptions {
+  uiSchema?: UISchema
+  refResolver?: RefResolver
+  readOnly?: boolean
+  disabled?: boolean
+  mode?: 'edit' | 'view'
+  wizard?: boolean
+  step?: number
+  // the component's tag, if it's registered under another name
+  tag?: string
+}
+
+/**
+ * Render a form to HTML, e.g. on a server for a fast first paint or as a fallback for
+ * browsers without JavaScript. The markup is what `<tosi-schema-form>` renders (with
+ * input values written as attributes), wrapped in the component's tag; once the component
+ * is given the same schema and data in the browser, it adopts the form, keeping anything
+ * typed into it in the meantime. Needs no DOM.
+ *
+ * @example
+ * const html = renderToString(orderSchema, order, { uiSchema })
+ * // '<tosi-schema-form><form class="schema-form" data-ssr="">...</form></tosi-schema-form>'
+ */
+export const renderToString = (schema: JSONSchema, data?: any, options: ServerRenderOptions = {}): string => {
+  if (!ServerSchemaForm) {
+    const factory = {
+      Component: ServerComponent,
+      elements: serverElements,
+      vars: cssVars,
+      varDefault: cssVarDefaults,
+      xin: {},
+      boxed: {},
+    } as unknown as XinFactory
+    const spec = schemaFormBlueprint('tosi-schema-form', factory)
+    // the blueprint returns its spec synchronously, with the component class as its type
+    // (which tosijs declares as an instance of Component)
+    if (spec instanceof Promise) return ''
+    ServerSchemaForm = spec.type as unknown as new () => ServerSchemaFormElement
+  }
+
+  const form = new ServerSchemaForm!()
+  form.schema = schema
+  if (options.uiSchema) form.uiSchema = options.uiSchema
+  if (options.refResolver) form.refResolver = options.refResolver
+  if (data !== undefined) form.data = data
+  form.readOnly = !!options.readOnly
+  form.disabled = !!options.disabled
+  form.mode = options.mode ?? 'edit'
+  form.wizard = !!options.wizard
+  if (options.step !== undefined) form.step = options.step
+  form.render()
+  form.querySelector('form')?.setAttribute('data-ssr', '')
+
+  const tag = options.tag ?? 'tosi-schema-form'
+  return `<${tag}>${form.innerHTML}</${tag}>`
+}
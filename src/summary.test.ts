@@ -0,0 +1,23 @@
+import { describe, test, expect } from 'bun:test'
+import { countItems, summarize } from './summary'
+
+describe('summarize', () => {
+  test('fills in an x-summary template from the value', () => {
+    const schema = { type: 'object', 'x-summary': '{{productName}} × {{quantity}}' }
+    expect(summarize(schema, { productName: 'USB-C Hub', quantity: 2 })).toBe('USB-C Hub × 2')
+    expect(summarize(schema, { productName: 'USB-C Hub' })).toBe('USB-C Hub ×')
+    expect(summarize({ 'x-summary': '{{ address.city }} ({{tags.length}} tags)' }, { address: { city: 'Oslo' }, tags: ['a'] }))
+      .toBe('Oslo (1 tags)')
+  })
+
+  test('falls back to the first string property, in schema order', () => {
+    const schema = { type: 'object', properties: { id: { type: 'integer' }, sku: { type: 'string' }, name: { type: 'string' } } }
+    expect(summarize(schema, { name: 'Hub', id: 3, sku: 'HUB-7' })).toBe('HUB-7')
+    expect(summarize(schema, { id: 3, sku: '' })).toBe('')
+  })
+
+  test('counts array items', () => {
+    expect(summarize({ type: 'array' }, ['a', 'b'])).toBe('2 items')
+    expect(countItems(1)).toBe('1 item')
+  })
+})
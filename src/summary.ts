@@ -0,0 +1,39 @@
+// Summaries
+// One-line descriptions of values, shown in place of sections that are collapsed
+
+import type { JSONSchema } from './blueprint'
+import { getValueByPath } from './paths'
+
+// e.g. '1 item', '3 items'
+export const countItems = (count: number): string => `${count} item${count === 1 ? '' : 's'}`
+
+const display = (value: any): string => {
+  if (value === undefined || value === null) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Summarize a value in one line: its schema's `x-summary` template with each `{{path}}`
+ * filled in from the value, or else the first non-empty string among its properties
+ * (or, for an array, how many items it has)
+ *
+ * @example
+ * summarize({ 'x-summary': '{{productName}} × {{quantity}}' }, { productName: 'Hub', quantity: 2 })
+ * // 'Hub × 2'
+ */
+export const summarize = (schema: JSONSchema, value: any): string => {
+  if (typeof schema['x-summary'] === 'string') {
+    return schema['x-summary']
+      .replace(/\{\{\s*([^}]*?)\s*\}\}/g, (_: string, path: string) =>
+        display(path ? getValueByPath(value, path) : value)
+      )
+      .trim()
+  }
+  if (Array.isArray(value)) return countItems(value.length)
+  if (value === null || typeof value !== 'object') return display(value)
+
+  // declared properties first, in order, then any others
+  const keys = [...new Set([...Object.keys(schema.properties || {}), ...Object.keys(value)])]
+  const first = keys.map(key => value[key]).find(v => typeof v === 'string' && v.trim() !== '')
+  return first ?? ''
+}
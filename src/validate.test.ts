@@ -0,0 +1,140 @@
+import { describe, test, expect } from 'bun:test'
+import { validateData, groupErrors } from './validate'
+import type { JSONSchema } from './blueprint'
+
+const keywords = (value: any, schema: JSONSchema) =>
+  validateData(value, schema).map(error => `${error.path}:${error.keyword}`)
+
+describe('validateData', () => {
+  test('valid data produces no errors', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        age: { type: 'integer', minimum: 0 }
+      }
+    }
+    expect(validateData({ name: 'Jane', age: 30 }, schema)).toEqual([])
+  })
+
+  test('numeric keywords', () => {
+    expect(keywords(7, { type: 'number', multipleOf: 5 })).toEqual([':multipleOf'])
+    expect(keywords(0.3, { type: 'number', multipleOf: 0.1 })).toEqual([])
+    expect(keywords(5, { type: 'number', exclusiveMinimum: 5 })).toEqual([':exclusiveMinimum'])
+    expect(keywords(10, { type: 'number', exclusiveMaximum: 10 })).toEqual([':exclusiveMaximum'])
+    expect(keywords(1.5, { type: 'integer' })).toEqual([':type'])
+  })
+
+  test('string keywords', () => {
+    expect(keywords('ab', { type: 'string', minLength: 3 })).toEqual([':minLength'])
+    expect(keywords('abc', { type: 'string', pattern: '^[0-9]+$' })).toEqual([':pattern'])
+    expect(keywords('nope', { type: 'string', format: 'email' })).toEqual([':format'])
+    // empty strings are not format-checked, matching native inputs
+    expect(keywords('', { type: 'string', format: 'email' })).toEqual([])
+  })
+
+  test('const and enum compare structurally', () => {
+    expect(keywords({ a: 1 }, { const: { a: 1 } })).toEqual([])
+    expect(keywords('x', { const: 'y' })).toEqual([':const'])
+    expect(keywords(2, { enum: [1, 2, 3] })).toEqual([])
+    expect(keywords('2', { enum: [1, 2, 3] })).toEqual([':enum'])
+  })
+
+  test('array keywords report item paths', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: {
+        tags: { type: 'array', minItems: 1, uniqueItems: true, items: { type: 'string' } },
+        lines: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['sku'],
+            properties: { sku: { type: 'string' } }
+          }
+        }
+      }
+    }
+    expect(keywords({ tags: [] }, schema)).toEqual(['tags:minItems'])
+    expect(keywords({ tags: ['a', 'b', 'a'] }, schema)).toEqual(['tags[2]:uniqueItems'])
+    expect(keywords({ lines: [{ sku: 'A' }, {}] }, schema)).toEqual(['lines[1].sku:required'])
+  })
+
+  test('oneOf requires exactly one match', () => {
+    const schema: JSONSchema = {
+      oneOf: [
+        { type: 'number', minimum: 0 },
+        { type: 'number', maximum: 10 }
+      ]
+    }
+    expect(keywords(-5, schema)).toEqual([])
+    expect(keywords(5, schema)).toEqual([':oneOf'])
+  })
+
+  test('anyOf reports errors from the closest option', () => {
+    const schema: JSONSchema = {
+      anyOf: [
+        { type: 'string', minLength: 5 },
+        { type: 'number' }
+      ]
+    }
+    expect(keywords('abc', schema)).toEqual([':minLength'])
+  })
+
+  test('object keywords', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      additionalProperties: false,
+      dependentRequired: { a: ['b'] }
+    }
+    expect(keywords({ a: 'x', c: 1 }, schema)).toEqual(['b:dependentRequired', 'c:additionalProperties'])
+  })
+
+  test('invalid patterns are skipped rather than thrown', () => {
+    expect(keywords('abc', { type: 'string', pattern: '[' })).toEqual([])
+    const schema: JSONSchema = {
+      type: 'object',
+      patternProperties: { '(': { type: 'string' }, '^n_': { type: 'number' } },
+      additionalProperties: false
+    }
+    expect(keywords({ n_1: 'x', other: 1 }, schema)).toEqual(['n_1:type', 'other:additionalProperties'])
+  })
+
+  test('if / then / else', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: { kind: { type: 'string' }, vat: { type: 'string' } },
+      if: { properties: { kind: { const: 'business' } } },
+      then: { required: ['vat'] }
+    }
+    expect(keywords({ kind: 'personal' }, schema)).toEqual([])
+    expect(keywords({ kind: 'business' }, schema)).toEqual(['vat:required'])
+  })
+
+  test('resolves $ref', () => {
+    const schema: JSONSchema = {
+      $defs: { positive: { type: 'number', exclusiveMinimum: 0 } },
+      type: 'object',
+      properties: { qty: { $ref: '#/$defs/positive' } }
+    }
+    expect(keywords({ qty: 0 }, schema)).toEqual(['qty:exclusiveMinimum'])
+  })
+
+  test('requireNonEmpty treats empty strings as missing', () => {
+    const schema: JSONSchema = { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+    expect(validateData({ name: '' }, schema)).toEqual([])
+    expect(validateData({ name: '' }, schema, { requireNonEmpty: true })[0]?.keyword).toBe('required')
+  })
+
+  test('groupErrors keys errors by path', () => {
+    const errors = validateData({ a: 1, b: 'x' }, {
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'string', minLength: 2, pattern: '^y' } }
+    })
+    const grouped = groupErrors(errors)
+    expect(Object.keys(grouped)).toEqual(['a', 'b'])
+    expect(grouped.b?.length).toBe(2)
+  })
+})
@@ -0,0 +1,366 @@
+// Schema Validation
+// A pure TypeScript JSON Schema validator reporting errors by data-path
+
+import type { JSONSchema } from './blueprint'
+import { createSchemaResolver, type SchemaResolver } from './refs'
+import { indexPath, joinPath } from './paths'
+
+export interface ValidationError {
+  // data-path of the offending value, e.g. 'items[0].quantity'
+  path: string
+  // the schema keyword that failed, e.g. 'minimum'
+  keyword: string
+  message: string
+}
+
+export interface ValidateOptions {
+  resolver?: SchemaResolver
+  // data-path of the value being validated (defaults to the root, '')
+  path?: string
+  // treat '' as missing for required properties, like the native required attribute
+  requireNonEmpty?: boolean
+}
+
+// Structural equality for enum, const and uniqueItems
+export const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]))
+  }
+  const keys = Object.keys(a)
+  if (keys.length !== Object.keys(b).length) return false
+  return keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+}
+
+// Check a value against a single JSON Schema type name
+export const matchesType = (value: any, type: string): boolean => {
+  switch (type) {
+    case 'string': return typeof value === 'string'
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'integer': return typeof value === 'number' && Number.isInteger(value)
+    case 'boolean': return typeof value === 'boolean'
+    case 'null': return value === null
+    case 'array': return Array.isArray(value)
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value)
+    default: return true
+  }
+}
+
+export const formatChecks: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z\d+.-]*:[^\s]*$/,
+  url: /^[a-zA-Z][a-zA-Z\d+.-]*:[^\s]*$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+}
+
+const formatNames: Record<string, string> = {
+  email: 'email address',
+  uri: 'URL',
+  url: 'URL',
+  date: 'date',
+  'date-time': 'date and time',
+  time: 'time',
+  ipv4: 'IP address',
+  uuid: 'UUID',
+}
+
+// Compile a schema's regular expression (pattern or patternProperties key), or undefined
+// if it isn't a valid one, which can't be enforced
+export const compilePattern = (pattern: string): RegExp | undefined => {
+  try {
+    return new RegExp(pattern, 'u')
+  } catch {
+    return undefined
+  }
+}
+
+const describe = (value: any): string => JSON.stringify(value) ?? String(value)
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+// Floating point tolerant multipleOf
+const isMultipleOf = (value: number, divisor: number): boolean => {
+  const quotient = value / divisor
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * Returns a flat list of errors whose paths use the same format as the
+ * data-path attributes rendered by the form.
+ *
+ * @example
+ * validateData({ age: -1 }, { type: 'object', properties: { age: { type: 'integer', minimum: 0 } } })
+ * // [{ path: 'age', keyword: 'minimum', message: 'Must be at least 0' }]
+ */
+export const validateData = (
+  value: any,
+  schema: JSONSchema | boolean,
+  options: ValidateOptions = {}
+): ValidationError[] => {
+  const resolver = options.resolver ?? createSchemaResolver(typeof schema === 'object' ? schema : {})
+  const requireNonEmpty = options.requireNonEmpty ?? false
+  const errors: ValidationError[] = []
+
+  const validate = (value: any, schema: JSONSchema | boolean, path: string, errors: ValidationError[]): void => {
+    if (schema === true) return
+    if (schema === false) {
+      errors.push({ path, keyword: 'false', message: 'No value is allowed here' })
+      return
+    }
+
+    if (schema.$ref !== undefined) {
+      const resolved = resolver.resolve(schema)
+      if (!resolved) {
+        errors.push({ path, keyword: '$ref', message: `Unresolved reference: ${schema.$ref}` })
+        return
+      }
+      validate(value, resolved, path, errors)
+      return
+    }
+
+    const fail = (keyword: string, message: string, at = path) => {
+      errors.push({ path: at, keyword, message })
+    }
+
+    // Type
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+      if (!types.some(t => matchesType(value, t))) {
+        fail('type', `Must be ${types.join(' or ')}`)
+        return
+      }
+    }
+
+    if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+      fail('const', `Must be ${describe(schema.const)}`)
+    }
+
+    if (schema.enum && !schema.enum.some(option => deepEqual(value, option))) {
+      fail('enum', `Must be one of ${schema.enum.map(describe).join(', ')}`)
+    }
+
+    // Numbers
+    if (typeof value === 'number') {
+      const exclusiveMinimum = typeof schema.exclusiveMinimum === 'number'
+        ? schema.exclusiveMinimum
+        : schema.exclusiveMinimum === true ? schema.minimum : undefined
+      const exclusiveMaximum = typeof schema.exclusiveMaximum === 'number'
+        ? schema.exclusiveMaximum
+        : schema.exclusiveMaximum === true ? schema.maximum : undefined
+
+      if (schema.minimum !== undefined && schema.exclusiveMinimum !== true && value < schema.minimum) {
+        fail('minimum', `Must be at least ${schema.minimum}`)
+      }
+      if (schema.maximum !== undefined && schema.exclusiveMaximum !== true && value > schema.maximum) {
+        fail('maximum', `Must be at most ${schema.maximum}`)
+      }
+      if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+        fail('exclusiveMinimum', `Must be greater than ${exclusiveMinimum}`)
+      }
+      if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+        fail('exclusiveMaximum', `Must be less than ${exclusiveMaximum}`)
+      }
+      if (schema.multipleOf !== undefined && !isMultipleOf(value, schema.multipleOf)) {
+        fail('multipleOf', `Must be a multiple of ${schema.multipleOf}`)
+      }
+    }
+
+    // Strings
+    if (typeof value === 'string') {
+      const length = [...value].length
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        fail('minLength', `Must be at least ${plural(schema.minLength, 'character')}`)
+      }
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        fail('maxLength', `Must be at most ${plural(schema.maxLength, 'character')}`)
+      }
+      if (schema.pattern !== undefined && compilePattern(schema.pattern)?.test(value) === false) {
+        fail('pattern', `Must match the pattern ${schema.pattern}`)
+      }
+      // Empty strings are left to required/minLength, as with native inputs
+      const formatCheck = schema.format ? formatChecks[schema.format] : undefined
+      if (formatCheck && value !== '' && !formatCheck.test(value)) {
+        fail('format', `Must be a valid ${formatNames[schema.format!]}`)
+      }
+    }
+
+    // Arrays
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail('minItems', `Must have at least ${plural(schema.minItems, 'item')}`)
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        fail('maxItems', `Must have at most ${plural(schema.maxItems, 'item')}`)
+      }
+      if (schema.uniqueItems) {
+        value.forEach((item, i) => {
+          if (value.findIndex(other => deepEqual(other, item)) < i) {
+            fail('uniqueItems', 'Duplicates an earlier item', indexPath(path, i))
+          }
+        })
+      }
+
+      // Positional items (prefixItems, or legacy array-form items)
+      const prefixItems: ReadonlyArray<JSONSchema | boolean> | undefined = schema.prefixItems
+        ?? (Array.isArray(schema.items) ? schema.items : undefined)
+      const restItems = schema.prefixItems !== undefined
+        ? schema.items
+        : Array.isArray(schema.items) ? schema.additionalItems : schema.items
+      value.forEach((item, i) => {
+        const itemSchema = prefixItems && i < prefixItems.length ? prefixItems[i] : restItems
+        if (itemSchema !== undefined) validate(item, itemSchema, indexPath(path, i), errors)
+      })
+
+      if (schema.contains !== undefined) {
+        const matches = value.filter(item => check(item, schema.contains)).length
+        const minContains = schema.minContains ?? 1
+        if (matches < minContains) fail('contains', 'Does not contain a matching item')
+        if (schema.maxContains !== undefined && matches > schema.maxContains) {
+          fail('maxContains', `Must contain at most ${plural(schema.maxContains, 'matching item')}`)
+        }
+      }
+    }
+
+    // Objects
+    if (matchesType(value, 'object')) {
+      const keys = Object.keys(value).filter(key => value[key] !== undefined)
+      const isMissing = (key: string) =>
+        value[key] === undefined || (requireNonEmpty && value[key] === '')
+
+      for (const key of schema.required || []) {
+        if (isMissing(key)) fail('required', 'This field is required', joinPath(path, key))
+      }
+
+      if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+        fail('minProperties', `Must have at least ${plural(schema.minProperties, 'property')}`)
+      }
+      if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+        fail('maxProperties', `Must have at most ${plural(schema.maxProperties, 'property')}`)
+      }
+
+      // Legacy draft-07 dependencies split into dependentRequired / dependentSchemas
+      const dependentRequired: Record<string, string[]> = { ...schema.dependentRequired }
+      const dependentSchemas: Record<string, JSONSchema> = { ...schema.dependentSchemas }
+      for (const [key, dependency] of Object.entries(schema.dependencies || {})) {
+        if (Array.isArray(dependency)) dependentRequired[key] = dependency
+        else dependentSchemas[key] = dependency as JSONSchema
+      }
+
+      for (const [key, dependents] of Object.entries(dependentRequired)) {
+        if (isMissing(key)) continue
+        for (const dependent of dependents) {
+          if (isMissing(dependent)) {
+            fail('dependentRequired', `Required when ${key} is set`, joinPath(path, dependent))
+          }
+        }
+      }
+      for (const [key, dependentSchema] of Object.entries(dependentSchemas)) {
+        if (!isMissing(key)) validate(value, dependentSchema, path, errors)
+      }
+
+      // invalid patterns match no keys
+      const patterns = Object.entries(schema.patternProperties || {}).flatMap(([pattern, patternSchema]) => {
+        const regex = compilePattern(pattern)
+        return regex ? [[regex, patternSchema] as const] : []
+      })
+
+      for (const key of keys) {
+        const keyPath = joinPath(path, key)
+        let matched = false
+
+        if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+          matched = true
+          validate(value[key], schema.properties[key]!, keyPath, errors)
+        }
+        for (const [regex, patternSchema] of patterns) {
+          if (regex.test(key)) {
+            matched = true
+            validate(value[key], patternSchema as JSONSchema, keyPath, errors)
+          }
+        }
+        if (!matched && schema.additionalProperties !== undefined) {
+          if (schema.additionalProperties === false) {
+            fail('additionalProperties', `Unexpected property: ${key}`, keyPath)
+          } else {
+            validate(value[key], schema.additionalProperties, keyPath, errors)
+          }
+        }
+        if (schema.propertyNames !== undefined) {
+          const nameErrors: ValidationError[] = []
+          validate(key, schema.propertyNames, keyPath, nameErrors)
+          nameErrors.forEach(error => fail('propertyNames', `Invalid key "${key}": ${error.message}`, keyPath))
+        }
+      }
+    }
+
+    // Composition
+    for (const subschema of schema.allOf || []) {
+      validate(value, subschema, path, errors)
+    }
+
+    if (schema.anyOf) {
+      const results = schema.anyOf.map(subschema => collect(value, subschema, path))
+      if (!results.some(result => result.length === 0)) {
+        errors.push(...closest(results))
+      }
+    }
+
+    if (schema.oneOf) {
+      const results = schema.oneOf.map(subschema => collect(value, subschema, path))
+      const matchCount = results.filter(result => result.length === 0).length
+      if (matchCount === 0) {
+        errors.push(...closest(results))
+      } else if (matchCount > 1) {
+        fail('oneOf', 'Matches more than one option')
+      }
+    }
+
+    if (schema.not !== undefined && check(value, schema.not)) {
+      fail('not', 'Must not match the excluded schema')
+    }
+
+    if (schema.if !== undefined) {
+      const branch = check(value, schema.if) ? schema.then : schema.else
+      if (branch !== undefined) validate(value, branch, path, errors)
+    }
+  }
+
+  const collect = (value: any, schema: JSONSchema | boolean, path: string): ValidationError[] => {
+    const found: ValidationError[] = []
+    validate(value, schema, path, found)
+    return found
+  }
+
+  const check = (value: any, schema: JSONSchema | boolean): boolean =>
+    collect(value, schema, '').length === 0
+
+  // When no union option matches, report the errors of the closest one
+  const closest = (results: ValidationError[][]): ValidationError[] => {
+    if (results.length === 0) return []
+    return results.reduce((a, b) => (b.length < a.length ? b : a))
+  }
+
+  validate(value, schema, options.path ?? '', errors)
+  return errors
+}
+
+// Convenience check used for conditionals and variant detection
+export const isValid = (value: any, schema: JSONSchema | boolean, resolver?: SchemaResolver): boolean =>
+  validateData(value, schema, { resolver }).length === 0
+
+// Group errors by data-path
+export const groupErrors = (errors: ValidationError[]): Record<string, ValidationError[]> => {
+  const grouped: Record<string, ValidationError[]> = {}
+  for (const error of errors) {
+    (grouped[error.path] ||= []).push(error)
+  }
+  return grouped
+}
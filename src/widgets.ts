@@ -0,0 +1,78 @@
+// Custom Widgets
+// A registry of element factories that take over rendering for matching fields
+
+import type { XinFactory } from 'tosijs'
+import type { JSONSchema, UISchema } from './blueprint'
+
+export interface WidgetContext {
+  // the tosijs element factories, so widgets needn't import tosijs themselves
+  elements: XinFactory['elements']
+  // id for the focusable element, matching the field label's `for`
+  id: string
+  label: string
+  path: string
+  schema: JSONSchema
+  ui: UISchema
+  required: boolean
+  // the field can't be edited (readOnly is also set when it's disabled)
+  readOnly: boolean
+  disabled: boolean
+}
+
+/**
+ * A custom widget. The blueprint renders the field's label and description, calls
+ * `render` for the editor itself and then `setValue` with the current value. The
+ * returned element must dispatch a bubbling `input` event whenever its value changes
+ * so the form can emit `schema-input`; `getValue` is read by `getData()`.
+ *
+ * @example
+ * registerWidget({
+ *   name: 'tags',
+ *   test: schema => schema.type === 'array' && schema.items?.type === 'string',
+ *   render: ({ elements, id }) => elements.input({ id, placeholder: 'comma, separated' }),
+ *   getValue: el => (el as HTMLInputElement).value.split(',').map(s => s.trim()).filter(Boolean),
+ *   setValue: (el, value) => { (el as HTMLInputElement).value = (value || []).join(', ') },
+ * })
+ */
+export interface SchemaWidget {
+  // matched by `x-widget` in the schema or `ui:widget` in the uiSchema
+  name: string
+  // also used for schemas with this format (or any of these formats)
+  format?: string | string[]
+  // also used for any schema this predicate accepts
+  test?: (schema: JSONSchema) => boolean
+  render: (context: WidgetContext) => HTMLElement
+  getValue: (el: HTMLElement) => any
+  setValue: (el: HTMLElement, value: any) => void
+}
+
+const widgets = new Map<string, SchemaWidget>()
+
+// Register a widget, replacing any existing widget with the same name
+export const registerWidget = (widget: SchemaWidget): void => {
+  widgets.delete(widget.name)
+  widgets.set(widget.name, widget)
+}
+
+export const unregisterWidget = (name: string): void => {
+  widgets.delete(name)
+}
+
+export const getWidget = (name: string): SchemaWidget | undefined => widgets.get(name)
+
+// Find the widget for a schema: by name first, then format, then predicate.
+// Later registrations win over earlier ones. A name that isn't registered is one of the
+// built-in widgets (such as 'textarea'), which format and predicate matches don't override.
+export const findWidget = (schema: JSONSchema, name?: string): SchemaWidget | undefined => {
+  const named = name ?? schema['x-widget']
+  if (named) return widgets.get(named)
+
+  const candidates = [...widgets.values()].reverse()
+  if (schema.format) {
+    const byFormat = candidates.find(w =>
+      Array.isArray(w.format) ? w.format.includes(schema.format!) : w.format === schema.format
+    )
+    if (byFormat) return byFormat
+  }
+  return candidates.find(w => w.test?.(schema))
+}